@@ -0,0 +1,61 @@
+import { getClaim, getRoles, hasRequiredValues } from "../utils/claims";
+
+describe("Claim Utils", () => {
+  const claims = {
+    sub: "user-1",
+    roles: ["admin", "support"],
+    scope: "orders:read orders:write",
+    realm_access: { roles: ["billing"] },
+  };
+
+  describe("getClaim", () => {
+    it("should read top-level and nested claims", () => {
+      expect(getClaim(claims, "sub")).toBe("user-1");
+      expect(getClaim(claims, "realm_access.roles")).toEqual(["billing"]);
+    });
+
+    it("should return undefined for missing paths", () => {
+      expect(getClaim(claims, "realm_access.groups")).toBeUndefined();
+      expect(getClaim(claims, "sub.name")).toBeUndefined();
+      expect(getClaim(null, "roles")).toBeUndefined();
+    });
+  });
+
+  describe("getRoles", () => {
+    it("should accept arrays and delimited strings", () => {
+      expect(getRoles(claims, "roles")).toEqual(["admin", "support"]);
+      expect(getRoles(claims, "scope")).toEqual([
+        "orders:read",
+        "orders:write",
+      ]);
+      expect(getRoles({ roles: "admin,support" }, "roles")).toEqual([
+        "admin",
+        "support",
+      ]);
+    });
+
+    it("should ignore non-string entries and missing claims", () => {
+      expect(getRoles({ roles: ["admin", 42] }, "roles")).toEqual(["admin"]);
+      expect(getRoles(claims, "groups")).toEqual([]);
+    });
+  });
+
+  describe("hasRequiredValues", () => {
+    const granted = ["read", "write"];
+
+    it("should require every value by default", () => {
+      expect(hasRequiredValues(granted, ["read", "write"])).toBe(true);
+      expect(hasRequiredValues(granted, ["read", "admin"])).toBe(false);
+    });
+
+    it("should require one value in any mode", () => {
+      expect(hasRequiredValues(granted, ["read", "admin"], "any")).toBe(true);
+      expect(hasRequiredValues(granted, ["admin"], "any")).toBe(false);
+    });
+
+    it("should accept a single value and an empty requirement", () => {
+      expect(hasRequiredValues(granted, "write")).toBe(true);
+      expect(hasRequiredValues([], [])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,1875 @@
+import axios, {
+  AxiosAdapter,
+  AxiosInstance,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { AuthKitClient } from "../client";
+import { AuthKitConfig, StorageAdapter } from "../types";
+import {
+  STORAGE_KEYS,
+  ENDPOINTS,
+  DISCOVERY_PATH,
+  ACCOUNTS_STORAGE_KEY,
+  CLOCK_OFFSET_STORAGE_KEY,
+  DISCOVERY_STORAGE_KEY,
+  EVENTS,
+} from "../utils/constants";
+import {
+  ValidationError,
+  AuthKitError,
+  ConfigurationError,
+  AuthenticationError,
+  DeepLinkError,
+  NetworkError,
+} from "../errors";
+import { attachAuthKit, createAuthFetch } from "../utils/http";
+import * as WebBrowser from "expo-web-browser";
+import * as Linking from "expo-linking";
+import * as Crypto from "expo-crypto";
+import { createHash, generateKeyPairSync, sign } from "crypto";
+import { parseJwt } from "../utils/jwt";
+import { SoftwareDPoPKeyProvider } from "../testing";
+import {
+  NamespacedStorage,
+  getClientNamespace,
+} from "../storage/NamespacedStorage";
+
+class MemoryStorage implements StorageAdapter {
+  items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+type MockResponse = {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+};
+
+type Responder = (
+  config: InternalAxiosRequestConfig,
+) => MockResponse | Promise<MockResponse>;
+
+function createClient(
+  responder: Responder,
+  config: Partial<AuthKitConfig> = {},
+) {
+  const memory = new MemoryStorage();
+  const client = new AuthKitClient({
+    authKitUrl: "https://auth.example.com",
+    clientId: "test-client",
+    redirectUri: "myapp://callback",
+    autoRefresh: false,
+    resourceServers: ["https://api.example.com"],
+    instanceId: "test",
+    storage: memory,
+    ...config,
+  });
+  // The default account's keys in the client namespace
+  const storage = new NamespacedStorage(memory, "test.");
+
+  const requests: InternalAxiosRequestConfig[] = [];
+  const adapter: AxiosAdapter = async (config) => {
+    requests.push(config);
+    const { status, data, headers = {} } = await responder(config);
+    const response = {
+      data,
+      status,
+      statusText: String(status),
+      headers,
+      config,
+    };
+    if (status >= 400) {
+      const error = Object.assign(new Error(`Status ${status}`), {
+        isAxiosError: true,
+        config,
+        response,
+        request: {},
+      });
+      throw error;
+    }
+    return response;
+  };
+  const instances = client as unknown as {
+    http: AxiosInstance;
+    api: AxiosInstance;
+  };
+  instances.http.defaults.adapter = adapter;
+  instances.api.defaults.adapter = adapter;
+
+  return { client, storage, memory, requests, adapter };
+}
+
+function seedTokens(storage: StorageAdapter, accessToken: string) {
+  storage.setItem(STORAGE_KEYS.ACCESS_TOKEN, accessToken);
+  storage.setItem(STORAGE_KEYS.REFRESH_TOKEN, "refresh-1");
+  storage.setItem(STORAGE_KEYS.TOKEN_TYPE, "Bearer");
+  storage.setItem(STORAGE_KEYS.EXPIRES_AT, String(Date.now() + 3600 * 1000));
+}
+
+const refreshedTokens = {
+  access_token: "access-2",
+  refresh_token: "refresh-2",
+  token_type: "Bearer",
+  expires_in: 3600,
+  scope: "read",
+};
+
+describe("AuthKitClient", () => {
+  describe("refreshAccessToken", () => {
+    it("should share one in-flight refresh between concurrent callers", async () => {
+      const { client, storage, requests } = createClient(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return { status: 200, data: refreshedTokens };
+      });
+      seedTokens(storage, "access-1");
+
+      const results = await Promise.all([
+        client.refreshAccessToken(),
+        client.refreshAccessToken(),
+        client.refreshAccessToken(),
+      ]);
+
+      expect(requests).toHaveLength(1);
+      results.forEach((result) => expect(result).toEqual(refreshedTokens));
+      expect(await client.getAccessToken()).toBe("access-2");
+    });
+
+    it("should start a new refresh once the previous one settled", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: refreshedTokens,
+      }));
+      seedTokens(storage, "access-1");
+
+      await client.refreshAccessToken();
+      await client.refreshAccessToken();
+
+      expect(requests).toHaveLength(2);
+    });
+  });
+
+  describe("background refresh", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function createRefreshingClient(expiresIn: number) {
+      const result = createClient(
+        (config) =>
+          config.url === ENDPOINTS.TOKEN
+            ? {
+                status: 200,
+                data: { ...refreshedTokens, expires_in: expiresIn },
+              }
+            : { status: 200, data: {} },
+        { autoRefresh: true },
+      );
+      const refreshes = () =>
+        result.requests.filter((request) => request.url === ENDPOINTS.TOKEN);
+      return { ...result, refreshes };
+    }
+
+    it("should refresh before expiry and reschedule", async () => {
+      const { client, storage, refreshes } = createRefreshingClient(3600);
+      seedTokens(storage, "access-1");
+
+      // Restored session: refresh refreshThreshold (300s) before expiry
+      await client.isAuthenticated();
+      await jest.advanceTimersByTimeAsync(3299 * 1000);
+      expect(refreshes()).toHaveLength(0);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(refreshes()).toHaveLength(1);
+      expect(await client.getAccessToken()).toBe("access-2");
+
+      // The new token schedules the next refresh
+      await jest.advanceTimersByTimeAsync(3300 * 1000);
+      expect(refreshes()).toHaveLength(2);
+    });
+
+    it("should not refresh in a loop when tokens live shorter than the threshold", async () => {
+      const { client, storage, refreshes } = createRefreshingClient(300);
+      seedTokens(storage, "access-1");
+
+      await client.refreshAccessToken();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(refreshes()).toHaveLength(1);
+
+      // Refreshed halfway through the 300s lifetime
+      await jest.advanceTimersByTimeAsync(149 * 1000);
+      expect(refreshes()).toHaveLength(2);
+    });
+
+    it("should try again after a transient failure", async () => {
+      let calls = 0;
+      const { client, storage, requests } = createClient(
+        (config) =>
+          config.url === ENDPOINTS.TOKEN && ++calls === 1
+            ? { status: 503, data: {} }
+            : { status: 200, data: refreshedTokens },
+        { autoRefresh: true, retry: false },
+      );
+      seedTokens(storage, "access-1");
+
+      await client.isAuthenticated();
+      await jest.advanceTimersByTimeAsync(3300 * 1000);
+      expect(requests).toHaveLength(1);
+      expect(await client.getAccessToken()).toBe("access-1");
+
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(requests).toHaveLength(2);
+      expect(await client.getAccessToken()).toBe("access-2");
+    });
+
+    it.each(["logout", "clearStorage"] as const)(
+      "should cancel the refresh on %s",
+      async (method) => {
+        const { client, storage, refreshes } = createRefreshingClient(3600);
+        seedTokens(storage, "access-1");
+        await client.isAuthenticated();
+
+        await client[method]();
+        await jest.advanceTimersByTimeAsync(3600 * 1000);
+
+        expect(refreshes()).toHaveLength(0);
+      },
+    );
+  });
+
+  describe("clock skew", () => {
+    const hour = 3600 * 1000;
+
+    it("should measure the server clock from the Date header", async () => {
+      const { client, storage, memory } = createClient(() => ({
+        status: 200,
+        data: refreshedTokens,
+        headers: { date: new Date(Date.now() + hour).toUTCString() },
+      }));
+      seedTokens(storage, "access-1");
+
+      await client.refreshAccessToken();
+
+      expect(Math.abs(client.getClockOffset() - hour)).toBeLessThan(2000);
+      const tokens = await client.getTokens();
+      expect(
+        Math.abs((tokens?.expiresAt ?? 0) - (Date.now() + 2 * hour)),
+      ).toBeLessThan(2000);
+      expect(storage.getItem(CLOCK_OFFSET_STORAGE_KEY)).toBe(
+        String(client.getClockOffset()),
+      );
+
+      // A new client starts with the persisted offset
+      const restarted = new AuthKitClient({
+        authKitUrl: "https://auth.example.com",
+        clientId: "test-client",
+        redirectUri: "myapp://callback",
+        autoRefresh: false,
+        instanceId: "test",
+        storage: memory,
+      });
+      expect(await restarted.isAuthenticated()).toBe(true);
+      expect(restarted.getClockOffset()).toBe(client.getClockOffset());
+    });
+
+    it("should fall back to the iat of a JWT access token", async () => {
+      const encode = (value: object) =>
+        Buffer.from(JSON.stringify(value)).toString("base64url");
+      const issuedAt = Math.floor((Date.now() - hour) / 1000);
+      const { client, storage } = createClient(() => ({
+        status: 200,
+        data: {
+          ...refreshedTokens,
+          access_token: `${encode({ alg: "RS256" })}.${encode({ iat: issuedAt })}.sig`,
+        },
+      }));
+      seedTokens(storage, "access-1");
+
+      await client.refreshAccessToken();
+
+      expect(Math.abs(client.getClockOffset() + hour)).toBeLessThan(2000);
+      const tokens = await client.getTokens();
+      expect(
+        client.getRemainingTokenLifetime(tokens?.expiresAt ?? 0),
+      ).toBeGreaterThan(3500 * 1000);
+    });
+
+    it("should refresh tokens within the expiry leeway", async () => {
+      const { client, storage, requests } = createClient(
+        () => ({ status: 200, data: refreshedTokens }),
+        { expiryLeeway: 60 },
+      );
+      seedTokens(storage, "access-1");
+      storage.setItem(STORAGE_KEYS.EXPIRES_AT, String(Date.now() + 45 * 1000));
+
+      expect(await client.isAuthenticated()).toBe(true);
+
+      expect(requests).toHaveLength(1);
+      expect(await client.getAccessToken()).toBe("access-2");
+    });
+  });
+
+  describe("retries", () => {
+    const retry = { initialDelay: 1, jitter: false };
+
+    it("should retry a failed refresh and report the retry", async () => {
+      let calls = 0;
+      const { client, storage, requests } = createClient(
+        () =>
+          ++calls === 1
+            ? { status: 503, data: { error: "temporarily_unavailable" } }
+            : { status: 200, data: refreshedTokens },
+        { retry },
+      );
+      seedTokens(storage, "access-1");
+      const retried = jest.fn();
+      const expired = jest.fn();
+      client.on(EVENTS.REQUEST_RETRY, retried);
+      client.on(EVENTS.TOKEN_EXPIRED, expired);
+
+      await client.refreshAccessToken();
+
+      expect(requests).toHaveLength(2);
+      expect(retried).toHaveBeenCalledTimes(1);
+      expect(retried.mock.calls[0][0]).toMatchObject({
+        operation: "refresh",
+        attempt: 1,
+        delay: 1,
+      });
+      expect(expired).not.toHaveBeenCalled();
+      expect(await client.getAccessToken()).toBe("access-2");
+    });
+
+    it("should retry userinfo requests that got no response", async () => {
+      const user = { id: "1", email: "a@example.com" };
+      let calls = 0;
+      const { client, storage, requests } = createClient(
+        (config) => {
+          if (++calls < 3) {
+            throw Object.assign(new Error("Network Error"), {
+              isAxiosError: true,
+              config,
+              request: {},
+            });
+          }
+          return { status: 200, data: user };
+        },
+        { retry },
+      );
+      seedTokens(storage, "access-1");
+
+      await expect(client.getCurrentUser(true)).resolves.toEqual(user);
+      expect(requests).toHaveLength(3);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      const { client, storage, requests } = createClient(
+        () => ({ status: 502, data: {} }),
+        { retry: { ...retry, maxAttempts: 2 } },
+      );
+      seedTokens(storage, "access-1");
+
+      await expect(client.revokeToken("access-1")).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should not retry client errors or when disabled", async () => {
+      const rejected = createClient(
+        () => ({ status: 400, data: { error: "invalid_grant" } }),
+        { retry },
+      );
+      seedTokens(rejected.storage, "access-1");
+      const disabled = createClient(() => ({ status: 503, data: {} }), {
+        retry: false,
+      });
+      seedTokens(disabled.storage, "access-1");
+
+      await expect(rejected.client.refreshAccessToken()).rejects.toThrow();
+      await expect(disabled.client.refreshAccessToken()).rejects.toThrow();
+      expect(rejected.requests).toHaveLength(1);
+      expect(disabled.requests).toHaveLength(1);
+    });
+
+    it("should keep the session when a refresh keeps failing transiently", async () => {
+      const { client, storage } = createClient(
+        (config) =>
+          config.url === ENDPOINTS.TOKEN
+            ? { status: 503, data: {} }
+            : { status: 401, data: { error: "invalid_token" } },
+        { retry: { ...retry, maxAttempts: 2 } },
+      );
+      seedTokens(storage, "access-1");
+      const expired = jest.fn();
+      const networkError = jest.fn();
+      client.on(EVENTS.TOKEN_EXPIRED, expired);
+      client.on(EVENTS.NETWORK_ERROR, networkError);
+
+      await expect(client.refreshAccessToken()).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+      await expect(
+        client.request("https://api.example.com/orders"),
+      ).rejects.toBeInstanceOf(NetworkError);
+
+      expect(expired).not.toHaveBeenCalled();
+      expect(networkError).toHaveBeenCalledTimes(2);
+      expect(await client.getAccessToken()).toBe("access-1");
+      expect(await client.getRefreshToken()).toBe("refresh-1");
+    });
+
+    it("should expire the session once when the grant is rejected", async () => {
+      const { client, storage } = createClient((config) =>
+        config.url === ENDPOINTS.TOKEN
+          ? { status: 400, data: { error: "invalid_grant" } }
+          : { status: 401, data: { error: "invalid_token" } },
+      );
+      seedTokens(storage, "access-1");
+      const expired = jest.fn();
+      client.on(EVENTS.TOKEN_EXPIRED, expired);
+
+      await expect(
+        client.request("https://api.example.com/orders"),
+      ).rejects.toMatchObject({ code: "400" });
+
+      expect(expired).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("401 handling", () => {
+    it("should refresh once and replay every rejected request", async () => {
+      const user = { id: "1", email: "a@example.com" };
+      const { client, storage, requests } = createClient(async (config) => {
+        if (config.url === ENDPOINTS.TOKEN) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return { status: 200, data: refreshedTokens };
+        }
+        return config.headers.Authorization === "Bearer access-2"
+          ? { status: 200, data: user }
+          : { status: 401, data: { error: "invalid_token" } };
+      });
+      seedTokens(storage, "access-1");
+
+      const users = await Promise.all([
+        client.getCurrentUser(true),
+        client.getCurrentUser(true),
+      ]);
+
+      users.forEach((result) => expect(result).toEqual(user));
+      expect(
+        requests.filter((request) => request.url === ENDPOINTS.TOKEN),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("request", () => {
+    it("should attach the access token for allowlisted origins", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: { ok: true },
+      }));
+      seedTokens(storage, "access-1");
+
+      const data = await client.request("https://api.example.com/orders");
+
+      expect(data).toEqual({ ok: true });
+      expect(requests[0].headers.Authorization).toBe("Bearer access-1");
+    });
+
+    it("should refuse to send the token to other origins", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+      seedTokens(storage, "access-1");
+
+      await expect(
+        client.request("https://evil.example.com/orders"),
+      ).rejects.toThrow(ValidationError);
+      expect(requests).toHaveLength(0);
+    });
+
+    it("should send unauthenticated requests when withAuth is false", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+      seedTokens(storage, "access-1");
+
+      await client.request("https://cdn.example.com/config", {
+        withAuth: false,
+      });
+
+      expect(requests[0].headers.Authorization).toBeUndefined();
+    });
+
+    it("should refresh and retry on 401", async () => {
+      const { client, storage } = createClient((config) => {
+        if (config.url === ENDPOINTS.TOKEN) {
+          return { status: 200, data: refreshedTokens };
+        }
+        return config.headers.Authorization === "Bearer access-2"
+          ? { status: 200, data: { ok: true } }
+          : { status: 401, data: { error: "invalid_token" } };
+      });
+      seedTokens(storage, "access-1");
+
+      await expect(
+        client.request("https://api.example.com/orders"),
+      ).resolves.toEqual({ ok: true });
+    });
+  });
+
+  describe("attachAuthKit", () => {
+    it("should authenticate relative URLs against the instance baseURL", async () => {
+      const { client, storage, requests, adapter } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+      seedTokens(storage, "access-1");
+      const app = axios.create({
+        baseURL: "https://orders.example.com",
+        adapter,
+      });
+      attachAuthKit(app, client, { hosts: ["orders.example.com"] });
+
+      await app.get("/orders");
+      await app.get("https://other.example.com/ping");
+
+      expect(requests[0].headers.Authorization).toBe("Bearer access-1");
+      expect(requests[1].headers.Authorization).toBeUndefined();
+    });
+
+    it("should map failures to AuthKit errors and detach cleanly", async () => {
+      const { client, storage, requests, adapter } = createClient((config) =>
+        config.url === ENDPOINTS.TOKEN
+          ? { status: 400, data: { error: "invalid_grant" } }
+          : { status: 401, data: { error: "invalid_token" } },
+      );
+      seedTokens(storage, "access-1");
+      const app = axios.create({
+        baseURL: "https://orders.example.com",
+        adapter,
+      });
+      const detach = attachAuthKit(app, client, {
+        hosts: ["https://orders.example.com"],
+      });
+
+      await expect(app.get("/orders")).rejects.toBeInstanceOf(AuthKitError);
+
+      detach();
+      requests.length = 0;
+      await expect(app.get("/orders")).rejects.not.toBeInstanceOf(AuthKitError);
+      expect(requests[0].headers.Authorization).toBeUndefined();
+    });
+
+    it("should map fetch connection failures to NetworkError", async () => {
+      const { client, storage } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+      seedTokens(storage, "access-1");
+      const networkError = jest.fn();
+      client.on(EVENTS.NETWORK_ERROR, networkError);
+      const fetchSpy = jest
+        .spyOn(global, "fetch")
+        .mockRejectedValue(new TypeError("fetch failed"));
+
+      try {
+        const authFetch = createAuthFetch(client);
+        await expect(
+          authFetch("https://api.example.com/orders"),
+        ).rejects.toBeInstanceOf(NetworkError);
+        expect(networkError).toHaveBeenCalledTimes(1);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+  });
+
+  describe("introspectToken", () => {
+    it("should introspect the current access token by default", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: { active: true, sub: "user-1", scope: "read" },
+      }));
+      seedTokens(storage, "access-1");
+
+      const result = await client.introspectToken();
+
+      expect(result).toEqual({ active: true, sub: "user-1", scope: "read" });
+      expect(requests[0].url).toBe(ENDPOINTS.INTROSPECT);
+      const body = new URLSearchParams(requests[0].data);
+      expect(body.get("token")).toBe("access-1");
+      expect(body.get("token_type_hint")).toBe("access_token");
+      expect(requests[0].headers.Authorization).toBe("Bearer access-1");
+    });
+  });
+
+  describe("getClientCredentialsToken", () => {
+    const serviceToken = {
+      access_token: "service-1",
+      token_type: "Bearer",
+      expires_in: 3600,
+      scope: "reports:read",
+    };
+
+    it("should cache tokens per scope set outside the user session", async () => {
+      const { client, memory, requests } = createClient(
+        () => ({ status: 200, data: serviceToken }),
+        { clientSecret: "secret" },
+      );
+
+      const first = await client.getClientCredentialsToken(["reports:read"]);
+      const second = await client.getClientCredentialsToken(["reports:read"]);
+
+      expect(first.accessToken).toBe("service-1");
+      expect(second).toBe(first);
+      expect(requests).toHaveLength(1);
+      const body = new URLSearchParams(requests[0].data);
+      expect(body.get("grant_type")).toBe("client_credentials");
+      expect(body.get("scope")).toBe("reports:read");
+      expect(memory.items.size).toBe(0);
+    });
+
+    it("should ignore repeated spaces in the granted scope", async () => {
+      const { client } = createClient(
+        () => ({
+          status: 200,
+          data: { ...serviceToken, scope: "reports:read  reports:write " },
+        }),
+        { clientSecret: "secret" },
+      );
+
+      const token = await client.getClientCredentialsToken(["reports:read"]);
+
+      expect(token.scopes).toEqual(["reports:read", "reports:write"]);
+    });
+
+    it("should require a client secret", async () => {
+      const { client } = createClient(() => ({
+        status: 200,
+        data: serviceToken,
+      }));
+
+      await expect(client.getClientCredentialsToken()).rejects.toBeInstanceOf(
+        ConfigurationError,
+      );
+    });
+  });
+
+  describe("dispose", () => {
+    it("should drop listeners and cached tokens but keep the session", async () => {
+      const { client, storage, requests } = createClient(
+        () => ({
+          status: 200,
+          data: {
+            access_token: "service-1",
+            token_type: "Bearer",
+            expires_in: 3600,
+          },
+        }),
+        { clientSecret: "secret" },
+      );
+      seedTokens(storage, "access-1");
+      const listener = jest.fn();
+      client.on(EVENTS.USER_LOGGED_OUT, listener);
+      await client.getClientCredentialsToken();
+
+      client.dispose();
+      await client.getClientCredentialsToken();
+      expect(await client.getAccessToken()).toBe("access-1");
+      await client.logout();
+
+      expect(
+        requests.filter((request) => request.url === ENDPOINTS.TOKEN),
+      ).toHaveLength(2);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("discovery", () => {
+    const metadata = {
+      issuer: "https://auth.example.com",
+      token_endpoint: "https://auth.example.com/o/token/",
+      userinfo_endpoint: "https://auth.example.com/o/userinfo/",
+    };
+
+    it("should use discovered endpoints and cache the document", async () => {
+      const { client, storage, requests } = createClient(
+        (config) =>
+          config.url?.endsWith(DISCOVERY_PATH)
+            ? { status: 200, data: metadata }
+            : { status: 200, data: refreshedTokens },
+        { discovery: true },
+      );
+      seedTokens(storage, "access-1");
+
+      await client.refreshAccessToken();
+      await client.refreshAccessToken();
+
+      expect(requests.map((request) => request.url)).toEqual([
+        `https://auth.example.com${DISCOVERY_PATH}`,
+        metadata.token_endpoint,
+        metadata.token_endpoint,
+      ]);
+      expect(storage.getItem(DISCOVERY_STORAGE_KEY)).toContain(
+        metadata.token_endpoint,
+      );
+    });
+
+    it("should keep the cached document across logout", async () => {
+      const { client, storage, memory, requests } = createClient(
+        (config) =>
+          config.url?.endsWith(DISCOVERY_PATH)
+            ? { status: 200, data: metadata }
+            : { status: 200, data: refreshedTokens },
+        { discovery: true },
+      );
+      seedTokens(storage, "access-1");
+      await client.getDiscoveryDocument();
+
+      await client.logout();
+      const restarted = new AuthKitClient({
+        authKitUrl: "https://auth.example.com",
+        clientId: "test-client",
+        redirectUri: "myapp://callback",
+        autoRefresh: false,
+        discovery: true,
+        instanceId: "test",
+        storage: memory,
+      });
+
+      expect(await restarted.getDiscoveryDocument()).toEqual(metadata);
+      expect(
+        requests.filter((request) => request.url?.endsWith(DISCOVERY_PATH)),
+      ).toHaveLength(1);
+    });
+
+    it("should reject a document for a different issuer", async () => {
+      const { client } = createClient(
+        () => ({
+          status: 200,
+          data: { ...metadata, issuer: "https://evil.example.com" },
+        }),
+        { discovery: true },
+      );
+
+      await expect(client.getDiscoveryDocument()).rejects.toBeInstanceOf(
+        ConfigurationError,
+      );
+    });
+  });
+
+  describe("endpoint overrides", () => {
+    it("should send requests to overridden endpoints with auth", async () => {
+      const { client, storage, requests } = createClient(
+        (config) =>
+          config.url?.endsWith(DISCOVERY_PATH)
+            ? {
+                status: 200,
+                data: {
+                  issuer: "https://auth.example.com",
+                  userinfo_endpoint: "https://auth.example.com/o/userinfo/",
+                },
+              }
+            : { status: 200, data: { id: "1" } },
+        {
+          discovery: true,
+          endpoints: { USERINFO: "https://gateway.example.com/me/" },
+        },
+      );
+      seedTokens(storage, "access-1");
+
+      await client.getCurrentUser(true);
+
+      const userinfo = requests[requests.length - 1];
+      expect(userinfo.url).toBe("https://gateway.example.com/me/");
+      expect(userinfo.headers.Authorization).toBe("Bearer access-1");
+    });
+
+    it("should build social login URLs with a custom builder", () => {
+      const { client } = createClient(() => ({ status: 200, data: {} }), {
+        endpoints: { SOCIAL_LOGIN: (provider) => `/social/${provider}/` },
+      });
+
+      expect(client.getSocialLoginUrl("google")).toBe(
+        "https://auth.example.com/social/google/",
+      );
+    });
+  });
+
+  describe("logout", () => {
+    it("should revoke both tokens with hints and clear storage", async () => {
+      const { client, storage, memory, requests } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+      seedTokens(storage, "access-1");
+
+      const result = await client.logout();
+
+      const hints = requests.map((request) =>
+        new URLSearchParams(request.data).get("token_type_hint"),
+      );
+      expect(hints.sort()).toEqual(["access_token", "refresh_token"]);
+      expect(result).toEqual({
+        success: true,
+        revoked: ["refresh_token", "access_token"],
+        sessionEnded: false,
+        errors: [],
+      });
+      // Only the client's account registry is left
+      expect([...memory.items.keys()]).toEqual([
+        `test.${ACCOUNTS_STORAGE_KEY}`,
+      ]);
+    });
+
+    it("should report failed revocations without refreshing", async () => {
+      const { client, storage, memory, requests } = createClient((config) =>
+        new URLSearchParams(config.data).get("token_type_hint") ===
+        "refresh_token"
+          ? { status: 401, data: { error: "invalid_client" } }
+          : { status: 200, data: {} },
+      );
+      seedTokens(storage, "access-1");
+
+      const result = await client.logout();
+
+      expect(result.success).toBe(false);
+      expect(result.revoked).toEqual(["access_token"]);
+      expect(result.errors[0].step).toBe("revoke_refresh_token");
+      expect(requests).toHaveLength(2);
+      // Only the client's account registry is left
+      expect([...memory.items.keys()]).toEqual([
+        `test.${ACCOUNTS_STORAGE_KEY}`,
+      ]);
+    });
+  });
+
+  describe("granted scopes", () => {
+    it("should report the scopes granted by the token endpoint", async () => {
+      const { client, storage } = createClient(
+        () => ({ status: 200, data: refreshedTokens }),
+        { scopes: ["profile", "email"] },
+      );
+      seedTokens(storage, "access-1");
+
+      expect((await client.getTokens())?.scopes).toEqual(["profile", "email"]);
+
+      await client.refreshAccessToken();
+      expect((await client.getTokens())?.scopes).toEqual(["read"]);
+    });
+
+    it("should keep the granted scopes when a refresh omits scope", async () => {
+      const { client, storage } = createClient(() => ({
+        status: 200,
+        data: { ...refreshedTokens, scope: undefined },
+      }));
+      seedTokens(storage, "access-1");
+      storage.setItem(STORAGE_KEYS.SCOPE, "read write");
+
+      await client.refreshAccessToken();
+
+      expect((await client.getTokens())?.scopes).toEqual(["read", "write"]);
+    });
+
+    it("should request current and missing scopes and report what the token grants", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: {
+          ...refreshedTokens,
+          access_token: "access-3",
+          scope: "contacts",
+        },
+      }));
+      seedTokens(storage, "access-1");
+      storage.setItem(STORAGE_KEYS.SCOPE, "read");
+
+      let authUrl = "";
+      (WebBrowser.openAuthSessionAsync as jest.Mock).mockImplementationOnce(
+        async (url: string) => {
+          authUrl = url;
+          (Linking.parse as jest.Mock).mockReturnValueOnce({
+            queryParams: {
+              code: "code-1",
+              state: storage.getItem(STORAGE_KEYS.OAUTH_STATE),
+            },
+          });
+          return { type: "success", url: "myapp://callback" };
+        },
+      );
+      const granted = jest.fn();
+      client.on("scopes_granted", granted);
+
+      const tokens = await client.requestAdditionalScopes(["read", "contacts"]);
+
+      const params = new URL(authUrl).searchParams;
+      expect(params.get("scope")).toBe("read contacts");
+      expect(params.get("include_granted_scopes")).toBe("true");
+      expect(new URLSearchParams(requests[0].data).get("code")).toBe("code-1");
+      expect(tokens.accessToken).toBe("access-3");
+      // The server granted less than requested; the new token only has this
+      expect(tokens.scopes).toEqual(["contacts"]);
+      expect(granted).toHaveBeenCalledWith(tokens);
+      expect(storage.getItem(STORAGE_KEYS.OAUTH_STATE)).toBeNull();
+    });
+
+    it("should skip the round trip when the scopes are already granted", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+      seedTokens(storage, "access-1");
+      storage.setItem(STORAGE_KEYS.SCOPE, "read contacts");
+      (WebBrowser.openAuthSessionAsync as jest.Mock).mockClear();
+
+      const tokens = await client.requestAdditionalScopes(["contacts"]);
+
+      expect(tokens.scopes).toEqual(["read", "contacts"]);
+      expect(WebBrowser.openAuthSessionAsync).not.toHaveBeenCalled();
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe("custom scope and user types", () => {
+    type AppScope = "openid" | "orders:read" | "orders:write";
+    interface AppUser {
+      id: string;
+      loyalty_tier: "gold" | "silver";
+    }
+
+    it("should accept app-specific scopes and return the app user shape", async () => {
+      const storage = new MemoryStorage();
+      const client = new AuthKitClient<AppScope, AppUser>({
+        authKitUrl: "https://auth.example.com",
+        clientId: "test-client",
+        redirectUri: "myapp://callback",
+        autoRefresh: false,
+        scopes: ["orders:read"],
+        storage,
+      });
+      (client as unknown as { http: AxiosInstance }).http.defaults.adapter =
+        async (config) => ({
+          data: { id: "user-1", loyalty_tier: "gold" },
+          status: 200,
+          statusText: "200",
+          headers: {},
+          config,
+        });
+      seedTokens(storage, "access-1");
+
+      const authUrl = new URL(await client.getAuthorizationUrl());
+      const user: AppUser = await client.getCurrentUser();
+
+      expect(authUrl.searchParams.get("scope")).toBe("orders:read");
+      expect(user.loyalty_tier).toBe("gold");
+    });
+
+    it("should accept a typed client in the HTTP helpers", () => {
+      const client = new AuthKitClient<AppScope, AppUser>({
+        authKitUrl: "https://auth.example.com",
+        clientId: "test-client",
+        redirectUri: "myapp://callback",
+        autoRefresh: false,
+        storage: new MemoryStorage(),
+      });
+
+      const detach = attachAuthKit(axios.create(), client);
+      const authFetch = createAuthFetch(client);
+
+      expect(typeof detach).toBe("function");
+      expect(typeof authFetch).toBe("function");
+      detach();
+    });
+  });
+
+  describe("getAccessTokenClaims", () => {
+    it("should decode a JWT access token and ignore opaque ones", async () => {
+      const { client, storage } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+      const encode = (value: object) =>
+        Buffer.from(JSON.stringify(value)).toString("base64url");
+      seedTokens(
+        storage,
+        `${encode({ alg: "RS256" })}.${encode({ sub: "user-1", roles: ["admin"] })}.sig`,
+      );
+
+      expect(await client.getAccessTokenClaims()).toEqual({
+        sub: "user-1",
+        roles: ["admin"],
+      });
+
+      seedTokens(storage, "opaque-token");
+      expect(await client.getAccessTokenClaims()).toBeNull();
+    });
+  });
+
+  describe("device login", () => {
+    const deviceResponse = {
+      device_code: "device-1",
+      user_code: "ABCD-EFGH",
+      verification_uri: "https://auth.example.com/device",
+      verification_uri_complete:
+        "https://auth.example.com/device?user_code=ABCD-EFGH",
+      expires_in: 600,
+      interval: 1,
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function createDeviceClient(tokenErrors: string[]) {
+      return createClient((config) => {
+        if (config.url === ENDPOINTS.DEVICE_AUTHORIZATION) {
+          return { status: 200, data: deviceResponse };
+        }
+        if (config.url === ENDPOINTS.TOKEN) {
+          const error = tokenErrors.shift();
+          return error
+            ? { status: 400, data: { error } }
+            : { status: 200, data: refreshedTokens };
+        }
+        return { status: 200, data: { id: "user-1" } };
+      });
+    }
+
+    it("should poll until approved, backing off on slow_down", async () => {
+      const { client, requests } = createDeviceClient([
+        "authorization_pending",
+        "slow_down",
+      ]);
+      const loggedIn = jest.fn();
+      client.on("user_logged_in", loggedIn);
+
+      const deviceLogin = await client.startDeviceLogin();
+      expect(deviceLogin.user_code).toBe("ABCD-EFGH");
+
+      const result = client.pollDeviceLogin(deviceLogin);
+      const tokenPolls = () =>
+        requests.filter((request) => request.url === ENDPOINTS.TOKEN);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(tokenPolls()).toHaveLength(2);
+
+      // slow_down raises the interval from 1s to 6s
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(tokenPolls()).toHaveLength(2);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(result).resolves.toEqual({ id: "user-1" });
+      expect(new URLSearchParams(tokenPolls()[0].data).get("grant_type")).toBe(
+        "urn:ietf:params:oauth:grant-type:device_code",
+      );
+      expect(await client.getAccessToken()).toBe("access-2");
+      expect(loggedIn).toHaveBeenCalledWith({ id: "user-1" });
+    });
+
+    it("should stop when the user denies the request", async () => {
+      const { client } = createDeviceClient(["access_denied"]);
+      const deviceLogin = await client.startDeviceLogin();
+
+      const result = client.pollDeviceLogin(deviceLogin);
+      const assertion = expect(result).rejects.toMatchObject({
+        code: "access_denied",
+      });
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+      await expect(result).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it("should send the client secret with the device authorization request", async () => {
+      const { client, requests } = createClient(
+        () => ({ status: 200, data: deviceResponse }),
+        { clientSecret: "secret" },
+      );
+
+      await client.startDeviceLogin();
+
+      const body = new URLSearchParams(requests[0].data);
+      expect(requests[0].url).toBe(ENDPOINTS.DEVICE_AUTHORIZATION);
+      expect(body.get("client_id")).toBe("test-client");
+      expect(body.get("client_secret")).toBe("secret");
+    });
+
+    it("should stop polling when aborted", async () => {
+      const { client, requests } = createDeviceClient([]);
+      const deviceLogin = await client.startDeviceLogin();
+      const controller = new AbortController();
+      const authError = jest.fn();
+      client.on(EVENTS.AUTH_ERROR, authError);
+
+      const result = client.pollDeviceLogin(deviceLogin, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ code: "cancelled" });
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(requests).toHaveLength(1);
+      expect(authError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("device approval", () => {
+    it("should post the decision with the user's access token", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+      seedTokens(storage, "access-1");
+
+      await client.approveDeviceCode(" ABCD-EFGH ");
+      await client.denyDeviceCode("WXYZ-1234");
+
+      expect(requests.map((request) => request.url)).toEqual([
+        ENDPOINTS.DEVICE_VERIFICATION,
+        ENDPOINTS.DEVICE_VERIFICATION,
+      ]);
+      expect(requests[0].headers.Authorization).toBe("Bearer access-1");
+      expect(JSON.parse(requests[0].data)).toEqual({
+        user_code: "ABCD-EFGH",
+        action: "approve",
+      });
+      expect(JSON.parse(requests[1].data).action).toBe("deny");
+    });
+
+    it("should require a signed-in user", async () => {
+      const { client, requests } = createClient(() => ({
+        status: 200,
+        data: {},
+      }));
+
+      await expect(client.approveDeviceCode("ABCD-EFGH")).rejects.toThrow(
+        AuthenticationError,
+      );
+      expect(requests).toHaveLength(0);
+    });
+
+    it("should only accept verification links from the auth server", () => {
+      const { client } = createClient(() => ({ status: 200, data: {} }));
+
+      expect(
+        client.parseDeviceVerificationLink(
+          "https://auth.example.com/device?user_code=ABCD-EFGH",
+        ),
+      ).toEqual({
+        userCode: "ABCD-EFGH",
+        verificationUri: "https://auth.example.com/device",
+      });
+      expect(() =>
+        client.parseDeviceVerificationLink(
+          "https://evil.example.com/device?user_code=ABCD-EFGH",
+        ),
+      ).toThrow(DeepLinkError);
+      expect(() =>
+        client.parseDeviceVerificationLink("https://auth.example.com/device"),
+      ).toThrow(DeepLinkError);
+    });
+  });
+
+  describe("exchangeToken", () => {
+    function createExchangeClient() {
+      let issued = 0;
+      return createClient((config) => {
+        const body = new URLSearchParams(config.data);
+        issued += 1;
+        return {
+          status: 200,
+          data: {
+            access_token: `${body.get("audience")}-${issued}`,
+            issued_token_type: "urn:ietf:params:oauth:token-type:access_token",
+            token_type: "Bearer",
+            expires_in: 300,
+          },
+        };
+      });
+    }
+
+    it("should exchange the access token and cache per audience", async () => {
+      const { client, storage, requests } = createExchangeClient();
+      seedTokens(storage, "access-1");
+
+      const orders = await client.exchangeToken({ audience: "orders" });
+      const again = await client.exchangeToken({ audience: "orders" });
+      const billing = await client.exchangeToken({ audience: "billing" });
+
+      expect(orders.accessToken).toBe("orders-1");
+      expect(again).toBe(orders);
+      expect(billing.accessToken).toBe("billing-2");
+      expect(requests).toHaveLength(2);
+
+      const body = new URLSearchParams(requests[0].data);
+      expect(body.get("grant_type")).toBe(
+        "urn:ietf:params:oauth:grant-type:token-exchange",
+      );
+      expect(body.get("subject_token")).toBe("access-1");
+      expect(body.get("subject_token_type")).toBe(
+        "urn:ietf:params:oauth:token-type:access_token",
+      );
+    });
+
+    it("should drop cached tokens on logout", async () => {
+      const { client, storage, requests } = createExchangeClient();
+      seedTokens(storage, "access-1");
+      await client.exchangeToken({ audience: "orders" });
+
+      await client.logout({ revokeAll: false });
+      seedTokens(storage, "access-2");
+      const orders = await client.exchangeToken({ audience: "orders" });
+
+      expect(orders.accessToken).not.toBe("orders-1");
+      expect(
+        new URLSearchParams(requests[requests.length - 1].data).get(
+          "subject_token",
+        ),
+      ).toBe("access-2");
+    });
+
+    it("should refuse to exchange without a session", async () => {
+      const { client } = createExchangeClient();
+
+      await expect(
+        client.exchangeToken({ audience: "orders" }),
+      ).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe("resource indicators", () => {
+    const resources = [
+      "https://orders.example.com",
+      "https://api.example.com/billing",
+    ];
+
+    function createResourceClient(
+      status: (config: InternalAxiosRequestConfig) => number = () => 200,
+    ) {
+      let minted = 0;
+      return createClient(
+        (config) => {
+          if (config.url === ENDPOINTS.TOKEN) {
+            const resource = new URLSearchParams(config.data).get("resource");
+            minted += 1;
+            return {
+              status: 200,
+              data: {
+                access_token: `${resource}#${minted}`,
+                refresh_token: `refresh-${minted + 1}`,
+                token_type: "Bearer",
+                expires_in: 300,
+              },
+            };
+          }
+          return { status: status(config), data: {} };
+        },
+        { resources },
+      );
+    }
+
+    it("should mint and cache a token per resource", async () => {
+      const { client, storage, requests } = createResourceClient();
+      seedTokens(storage, "access-1");
+
+      const orders = await client.getAccessToken({ resource: resources[0] });
+      const cached = await client.getAccessToken({ resource: resources[0] });
+
+      expect(orders).toBe("https://orders.example.com#1");
+      expect(cached).toBe(orders);
+      expect(requests).toHaveLength(1);
+      expect(new URLSearchParams(requests[0].data).get("grant_type")).toBe(
+        "refresh_token",
+      );
+      // The session token is untouched, the rotated refresh token is kept
+      expect(await client.getAccessToken()).toBe("access-1");
+      expect(await client.getRefreshToken()).toBe("refresh-2");
+    });
+
+    it("should pick the token by request URL", async () => {
+      const { client, storage, requests } = createResourceClient();
+      seedTokens(storage, "access-1");
+
+      await client.request("https://api.example.com/billing/invoices");
+      await client.request("https://api.example.com/profile");
+      await client.request("https://orders.example.com/orders");
+
+      const apiCalls = requests.filter(
+        (request) => request.url !== ENDPOINTS.TOKEN,
+      );
+      expect(apiCalls.map((request) => request.headers.Authorization)).toEqual([
+        "Bearer https://api.example.com/billing#1",
+        "Bearer access-1",
+        "Bearer https://orders.example.com#2",
+      ]);
+    });
+
+    it("should mint a new resource token when the API rejects it", async () => {
+      const statuses = [401, 200];
+      const sent: unknown[] = [];
+      const { client, storage } = createResourceClient((config) => {
+        sent.push(config.headers.Authorization);
+        return statuses.shift() ?? 200;
+      });
+      seedTokens(storage, "access-1");
+
+      await client.request("https://orders.example.com/orders");
+
+      expect(sent).toEqual([
+        "Bearer https://orders.example.com#1",
+        "Bearer https://orders.example.com#2",
+      ]);
+      expect(await client.getAccessToken()).toBe("access-1");
+    });
+
+    it("should send resource indicators with the authorization request", async () => {
+      const { client } = createResourceClient();
+
+      const url = new URL(await client.getAuthorizationUrl());
+
+      expect(url.searchParams.getAll("resource")).toEqual(resources);
+    });
+  });
+
+  describe("DPoP", () => {
+    const dpopTokens = { ...refreshedTokens, token_type: "DPoP" };
+
+    function createNodeKeyProvider() {
+      const { privateKey, publicKey } = generateKeyPairSync("ec", {
+        namedCurve: "P-256",
+      });
+      const publicJwk = publicKey.export({ format: "jwk" }) as {
+        kty: string;
+      };
+      return {
+        getKey: jest.fn(async () => ({
+          alg: "ES256",
+          publicJwk,
+          sign: async (input: string) =>
+            sign("sha256", Buffer.from(input), {
+              key: privateKey,
+              dsaEncoding: "ieee-p1363",
+            }).toString("base64url"),
+        })),
+        deleteKey: jest.fn(async () => undefined),
+      };
+    }
+
+    function proofOf(config: InternalAxiosRequestConfig) {
+      return parseJwt(String(config.headers.DPoP));
+    }
+
+    beforeEach(() => {
+      (Crypto.digestStringAsync as jest.Mock).mockImplementation(
+        async (
+          _algorithm: string,
+          data: string,
+          options?: { encoding?: string },
+        ) =>
+          createHash("sha256")
+            .update(data)
+            .digest(options?.encoding === "base64" ? "base64" : "hex"),
+      );
+    });
+
+    it("should require a key provider", () => {
+      expect(() =>
+        createClient(() => ({ status: 200, data: {} }), { dpop: true }),
+      ).toThrow(ConfigurationError);
+    });
+
+    it("should send a proof with token requests", async () => {
+      const memory = new MemoryStorage();
+      const { client, storage, requests } = createClient(
+        () => ({ status: 200, data: dpopTokens }),
+        { dpop: true, dpopKeyProvider: new SoftwareDPoPKeyProvider(memory) },
+      );
+      seedTokens(storage, "access-1");
+
+      await client.refreshAccessToken();
+
+      const { header, payload } = proofOf(requests[0]);
+      expect(header.typ).toBe("dpop+jwt");
+      expect(header.alg).toBe("ES256");
+      expect(payload).toMatchObject({
+        htm: "POST",
+        htu: `https://auth.example.com${ENDPOINTS.TOKEN}`,
+      });
+      expect(payload.ath).toBeUndefined();
+      expect(memory.getItem(STORAGE_KEYS.DPOP_KEY)).not.toBeNull();
+    });
+
+    it("should date proofs on the server's clock", async () => {
+      const offset = 3600 * 1000;
+      const { client, storage, requests } = createClient(
+        () => ({ status: 200, data: dpopTokens }),
+        { dpop: true, dpopKeyProvider: createNodeKeyProvider() },
+      );
+      seedTokens(storage, "access-1");
+      storage.setItem(CLOCK_OFFSET_STORAGE_KEY, String(offset));
+
+      await client.refreshAccessToken();
+
+      const { payload } = proofOf(requests[0]);
+      expect(
+        Math.abs((payload.iat as number) - (Date.now() + offset) / 1000),
+      ).toBeLessThan(2);
+    });
+
+    it("should use the DPoP scheme and bind the proof to the token", async () => {
+      const dpopKeyProvider = createNodeKeyProvider();
+      const { client, storage, requests } = createClient(
+        () => ({ status: 200, data: {} }),
+        { dpop: true, dpopKeyProvider },
+      );
+      seedTokens(storage, "access-1");
+      storage.setItem(STORAGE_KEYS.TOKEN_TYPE, "DPoP");
+
+      await client.request("https://api.example.com/orders?page=2");
+
+      expect(requests[0].headers.Authorization).toBe("DPoP access-1");
+      const { header, payload } = proofOf(requests[0]);
+      expect(header.jwk).toEqual((await dpopKeyProvider.getKey()).publicJwk);
+      expect(payload).toMatchObject({
+        htm: "GET",
+        htu: "https://api.example.com/orders",
+        ath: createHash("sha256").update("access-1").digest("base64url"),
+      });
+    });
+
+    it("should retry with the server nonce and reuse it", async () => {
+      const nonces: unknown[] = [];
+      let challenged = false;
+      const { client, storage } = createClient(
+        (config) => {
+          nonces.push(proofOf(config).payload.nonce);
+          if (!challenged) {
+            challenged = true;
+            return {
+              status: 400,
+              data: { error: "use_dpop_nonce" },
+              headers: { "dpop-nonce": "nonce-1" },
+            };
+          }
+          return { status: 200, data: dpopTokens };
+        },
+        { dpop: true, dpopKeyProvider: createNodeKeyProvider() },
+      );
+      seedTokens(storage, "access-1");
+
+      await client.refreshAccessToken();
+      await client.refreshAccessToken();
+
+      expect(nonces).toEqual([undefined, "nonce-1", "nonce-1"]);
+    });
+
+    it("should delete the key on logout", async () => {
+      const dpopKeyProvider = createNodeKeyProvider();
+      const { client, storage } = createClient(
+        () => ({ status: 200, data: {} }),
+        { dpop: true, dpopKeyProvider },
+      );
+      seedTokens(storage, "access-1");
+
+      await client.logout();
+
+      expect(dpopKeyProvider.deleteKey).toHaveBeenCalled();
+    });
+
+    it("should not send proofs unless enabled", async () => {
+      const { client, storage, requests } = createClient(() => ({
+        status: 200,
+        data: refreshedTokens,
+      }));
+      seedTokens(storage, "access-1");
+
+      await client.refreshAccessToken();
+      await client.request("https://api.example.com/orders");
+
+      requests.forEach((request) =>
+        expect(request.headers.DPoP).toBeUndefined(),
+      );
+      expect(requests[1].headers.Authorization).toBe("Bearer access-2");
+    });
+  });
+
+  describe("pushed authorization requests", () => {
+    const metadata = {
+      issuer: "https://auth.example.com",
+      authorization_endpoint: "https://auth.example.com/o/authorize/",
+    };
+
+    it("should push the parameters and open a request_uri URL", async () => {
+      const { client, requests } = createClient(
+        () => ({
+          status: 201,
+          data: { request_uri: "urn:example:par-1", expires_in: 60 },
+        }),
+        { par: true, scopes: ["read"] },
+      );
+
+      const url = new URL(await client.getAuthorizationUrl());
+
+      expect(requests[0].url).toBe(ENDPOINTS.PAR);
+      const pushed = new URLSearchParams(requests[0].data);
+      expect(pushed.get("client_id")).toBe("test-client");
+      expect(pushed.get("scope")).toBe("read");
+      expect(pushed.get("redirect_uri")).toBe("myapp://callback");
+      expect(pushed.get("state")).toBeTruthy();
+      expect(pushed.get("code_challenge")).toBeTruthy();
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        client_id: "test-client",
+        request_uri: "urn:example:par-1",
+      });
+    });
+
+    it("should use the advertised endpoint", async () => {
+      const { client, requests } = createClient(
+        (config) =>
+          config.url?.endsWith(DISCOVERY_PATH)
+            ? {
+                status: 200,
+                data: {
+                  ...metadata,
+                  pushed_authorization_request_endpoint:
+                    "https://auth.example.com/o/par/",
+                },
+              }
+            : {
+                status: 201,
+                data: { request_uri: "urn:example:par-1", expires_in: 60 },
+              },
+        { par: true, discovery: true },
+      );
+
+      const url = new URL(await client.getAuthorizationUrl());
+
+      expect(requests[1].url).toBe("https://auth.example.com/o/par/");
+      expect(url.origin + url.pathname).toBe(metadata.authorization_endpoint);
+      expect(url.searchParams.get("request_uri")).toBe("urn:example:par-1");
+    });
+
+    it("should fall back when the server doesn't advertise PAR", async () => {
+      const { client, requests } = createClient(
+        () => ({ status: 200, data: metadata }),
+        { par: true, discovery: true, scopes: ["read"] },
+      );
+
+      const url = new URL(await client.getAuthorizationUrl());
+
+      expect(requests).toHaveLength(1);
+      expect(url.searchParams.get("scope")).toBe("read");
+      expect(url.searchParams.get("request_uri")).toBeNull();
+    });
+
+    it("should fall back when the PAR endpoint doesn't exist", async () => {
+      const { client, requests } = createClient(
+        () => ({ status: 404, data: {} }),
+        { par: true, scopes: ["read"] },
+      );
+
+      const url = new URL(await client.getAuthorizationUrl());
+
+      expect(requests[0].url).toBe(ENDPOINTS.PAR);
+      expect(url.searchParams.get("scope")).toBe("read");
+      expect(url.searchParams.get("request_uri")).toBeNull();
+    });
+
+    it("should fail when the server requires PAR", async () => {
+      const { client } = createClient(
+        (config) =>
+          config.url?.endsWith(DISCOVERY_PATH)
+            ? {
+                status: 200,
+                data: {
+                  ...metadata,
+                  pushed_authorization_request_endpoint:
+                    "https://auth.example.com/o/par/",
+                  require_pushed_authorization_requests: true,
+                },
+              }
+            : { status: 405, data: {} },
+        { par: true, discovery: true },
+      );
+
+      await expect(client.getAuthorizationUrl()).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+    });
+  });
+
+  describe("accounts", () => {
+    const users = {
+      "access-1": { id: "user-1", email: "one@example.com" },
+      "access-2": { id: "user-2", email: "two@example.com" },
+    };
+
+    function createAccountsClient(
+      accountUsers: Record<string, unknown> = users,
+      config: Partial<AuthKitConfig> = {},
+    ) {
+      return createClient((request) => {
+        if (request.url === ENDPOINTS.TOKEN) {
+          return { status: 200, data: refreshedTokens };
+        }
+        if (request.url === ENDPOINTS.USERINFO) {
+          const token = String(request.headers.Authorization).slice(7);
+          return { status: 200, data: accountUsers[token] };
+        }
+        return { status: 200, data: {} };
+      }, config);
+    }
+
+    function mockBrowserLogin(memory: MemoryStorage) {
+      (WebBrowser.openAuthSessionAsync as jest.Mock).mockImplementationOnce(
+        async () => {
+          const [, state] = [...memory.items].find(([key]) =>
+            key.endsWith(STORAGE_KEYS.OAUTH_STATE),
+          ) as [string, string];
+          (Linking.parse as jest.Mock).mockReturnValueOnce({
+            queryParams: { code: "code-1", state },
+          });
+          return { type: "success", url: "myapp://callback" };
+        },
+      );
+    }
+
+    async function addSecondAccount(
+      ...args: Parameters<typeof createAccountsClient>
+    ) {
+      const context = createAccountsClient(...args);
+      seedTokens(context.storage, "access-1");
+      await context.client.getCurrentUser();
+      mockBrowserLogin(context.memory);
+      const added = await context.client.addAccount();
+      return { ...context, added };
+    }
+
+    it("should add an account without ending the current session", async () => {
+      const { client, storage, added } = await addSecondAccount();
+
+      expect(added).toMatchObject({ user: users["access-2"], isActive: true });
+      expect(await client.getAccessToken()).toBe("access-2");
+      expect(storage.getItem(STORAGE_KEYS.ACCESS_TOKEN)).toBe("access-1");
+      expect(await client.listAccounts()).toEqual([
+        { id: "default", user: users["access-1"], isActive: false },
+        added,
+      ]);
+    });
+
+    it("should ask for credentials instead of reusing the browser session", async () => {
+      await addSecondAccount();
+
+      const [authUrl] = (WebBrowser.openAuthSessionAsync as jest.Mock).mock
+        .lastCall as [string];
+      expect(new URL(authUrl).searchParams.get("prompt")).toBe("login");
+    });
+
+    it("should replace an account when its user signs in again", async () => {
+      const { client, storage, added } = await addSecondAccount({
+        ...users,
+        "access-2": users["access-1"],
+      });
+
+      expect(storage.getItem(STORAGE_KEYS.ACCESS_TOKEN)).toBeNull();
+      expect(added.user).toEqual(users["access-1"]);
+      expect(await client.listAccounts()).toEqual([added]);
+    });
+
+    it("should keep the shared DPoP key until the last account signs out", async () => {
+      const keys = new MemoryStorage();
+      const { client, added } = await addSecondAccount(users, {
+        dpop: true,
+        dpopKeyProvider: new SoftwareDPoPKeyProvider(keys),
+      });
+      const key = keys.getItem(STORAGE_KEYS.DPOP_KEY);
+      expect(key).not.toBeNull();
+
+      await client.removeAccount(added.id);
+      expect(await client.getAccessToken()).toBe("access-1");
+      expect(keys.getItem(STORAGE_KEYS.DPOP_KEY)).toBe(key);
+
+      await client.logout();
+      expect(keys.getItem(STORAGE_KEYS.DPOP_KEY)).toBeNull();
+    });
+
+    it("should switch between accounts", async () => {
+      const { client, added } = await addSecondAccount();
+      const switched = jest.fn();
+      client.on("account_switched", switched);
+
+      await client.switchAccount("default");
+
+      expect(await client.getAccessToken()).toBe("access-1");
+      expect(switched).toHaveBeenCalledWith({ accountId: "default" });
+      await expect(client.switchAccount("unknown")).rejects.toBeInstanceOf(
+        ValidationError,
+      );
+
+      await client.switchAccount(added.id);
+      expect(await client.getAccessToken()).toBe("access-2");
+    });
+
+    it("should revoke and clear an inactive account", async () => {
+      const { client, storage, requests } = await addSecondAccount();
+      requests.length = 0;
+
+      await client.removeAccount("default");
+
+      expect(requests.map((request) => request.url)).toEqual([
+        ENDPOINTS.REVOKE,
+        ENDPOINTS.REVOKE,
+      ]);
+      requests.forEach((request) =>
+        expect(request.headers.Authorization).toBeUndefined(),
+      );
+      expect(storage.getItem(STORAGE_KEYS.ACCESS_TOKEN)).toBeNull();
+      expect(await client.getAccessToken()).toBe("access-2");
+      expect(await client.listAccounts()).toHaveLength(1);
+    });
+
+    it("should fall back to the next account when removing the active one", async () => {
+      const { client, added } = await addSecondAccount();
+
+      await client.removeAccount(added.id);
+
+      expect(await client.getAccessToken()).toBe("access-1");
+      expect(await client.listAccounts()).toEqual([
+        { id: "default", user: users["access-1"], isActive: true },
+      ]);
+    });
+  });
+
+  describe("client storage namespaces", () => {
+    function createTenant(
+      memory: MemoryStorage,
+      clientId: string,
+      config: Partial<AuthKitConfig> = {},
+    ) {
+      const client = new AuthKitClient({
+        authKitUrl: "https://auth.example.com",
+        clientId,
+        redirectUri: "myapp://callback",
+        autoRefresh: false,
+        storage: memory,
+        ...config,
+      });
+      (client as unknown as { http: AxiosInstance }).http.defaults.adapter =
+        async (config) => ({
+          data: {},
+          status: 200,
+          statusText: "200",
+          headers: {},
+          config,
+        });
+      const storage = new NamespacedStorage(
+        memory,
+        `${getClientNamespace("https://auth.example.com", clientId)}.`,
+      );
+      return { client, storage };
+    }
+
+    it("should keep clients for different apps apart", async () => {
+      const memory = new MemoryStorage();
+      const tenantA = createTenant(memory, "tenant-a");
+      const tenantB = createTenant(memory, "tenant-b");
+      seedTokens(tenantA.storage, "access-a");
+      seedTokens(tenantB.storage, "access-b");
+
+      expect(await tenantA.client.getAccessToken()).toBe("access-a");
+      expect(await tenantB.client.getAccessToken()).toBe("access-b");
+
+      await tenantA.client.logout();
+
+      expect(await tenantA.client.getAccessToken()).toBeNull();
+      expect(await tenantB.client.getAccessToken()).toBe("access-b");
+    });
+
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    it("should adopt a session whose access token names this client", async () => {
+      const accessToken = `${encode({ alg: "RS256" })}.${encode({
+        iss: "https://auth.example.com",
+        aud: "https://api.example.com",
+        client_id: "tenant-a",
+      })}.sig`;
+      const memory = new MemoryStorage();
+      seedTokens(memory, accessToken);
+
+      const tenantB = createTenant(memory, "tenant-b");
+      expect(await tenantB.client.getAccessToken()).toBeNull();
+
+      const tenantA = createTenant(memory, "tenant-a");
+      expect(await tenantA.client.getAccessToken()).toBe(accessToken);
+      expect(tenantA.storage.getItem(STORAGE_KEYS.ACCESS_TOKEN)).toBe(
+        accessToken,
+      );
+      expect(memory.getItem(STORAGE_KEYS.ACCESS_TOKEN)).toBeNull();
+    });
+
+    it("should only adopt an opaque session when asked to", async () => {
+      const memory = new MemoryStorage();
+      seedTokens(memory, "access-1");
+
+      const tenantB = createTenant(memory, "tenant-b");
+      expect(await tenantB.client.getAccessToken()).toBeNull();
+      expect(memory.getItem(STORAGE_KEYS.ACCESS_TOKEN)).toBe("access-1");
+
+      const tenantA = createTenant(memory, "tenant-a", {
+        adoptLegacySession: true,
+      });
+      expect(await tenantA.client.getAccessToken()).toBe("access-1");
+    });
+
+    it("should leave a session issued to another client in place", async () => {
+      const memory = new MemoryStorage();
+      seedTokens(memory, "access-a");
+      memory.setItem(
+        STORAGE_KEYS.ID_TOKEN,
+        `${encode({ alg: "RS256" })}.${encode({ iss: "https://auth.example.com", aud: "tenant-a" })}.sig`,
+      );
+
+      const tenantB = createTenant(memory, "tenant-b");
+      expect(await tenantB.client.getAccessToken()).toBeNull();
+
+      const tenantA = createTenant(memory, "tenant-a");
+      expect(await tenantA.client.getAccessToken()).toBe("access-a");
+    });
+
+    it("should not adopt sessions with an explicit instanceId", async () => {
+      const memory = new MemoryStorage();
+      seedTokens(memory, "access-1");
+      const { client } = createClient(() => ({ status: 200, data: {} }), {
+        storage: memory,
+      });
+
+      expect(await client.getAccessToken()).toBeNull();
+      expect(memory.getItem(STORAGE_KEYS.ACCESS_TOKEN)).toBe("access-1");
+    });
+  });
+});
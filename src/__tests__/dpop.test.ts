@@ -0,0 +1,102 @@
+import { createHash, createPrivateKey, createPublicKey, verify } from "crypto";
+import * as Crypto from "expo-crypto";
+import { JsonWebKey, StorageAdapter } from "../types";
+import { createDPoPProof } from "../utils/dpop";
+import {
+  createSoftwareDPoPKey,
+  generateDPoPJwk,
+  SoftwareDPoPKeyProvider,
+} from "../testing";
+import { parseJwt } from "../utils/jwt";
+import { STORAGE_KEYS } from "../utils/constants";
+
+function createStorage(): StorageAdapter & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+function verifyProof(proof: string, jwk: JsonWebKey): boolean {
+  const [header, payload, signature] = proof.split(".");
+  return verify(
+    "sha256",
+    Buffer.from(`${header}.${payload}`),
+    {
+      key: createPublicKey({ key: jwk as never, format: "jwk" }),
+      dsaEncoding: "ieee-p1363",
+    },
+    Buffer.from(signature, "base64url"),
+  );
+}
+
+describe("DPoP Utils", () => {
+  beforeEach(() => {
+    (Crypto.digestStringAsync as jest.Mock).mockImplementation(
+      async (
+        _algorithm: string,
+        data: string,
+        options?: { encoding?: string },
+      ) =>
+        createHash("sha256")
+          .update(data)
+          .digest(options?.encoding === "base64" ? "base64" : "hex"),
+    );
+  });
+
+  it("should derive the public key of a generated P-256 key", () => {
+    const jwk = generateDPoPJwk();
+    const expected = createPublicKey(
+      createPrivateKey({ key: jwk as never, format: "jwk" }),
+    ).export({ format: "jwk" });
+
+    expect(jwk.x).toBe(expected.x);
+    expect(jwk.y).toBe(expected.y);
+  });
+
+  it("should create a verifiable ES256 proof bound to the request", async () => {
+    const key = createSoftwareDPoPKey(generateDPoPJwk());
+
+    const proof = await createDPoPProof(key, {
+      method: "post",
+      url: "https://auth.example.com/oauth/token/?foo=bar#frag",
+      nonce: "nonce-1",
+      accessToken: "access-1",
+    });
+    const { header, payload } = parseJwt(proof);
+
+    expect(verifyProof(proof, key.publicJwk)).toBe(true);
+    expect(header).toEqual({
+      typ: "dpop+jwt",
+      alg: "ES256",
+      jwk: key.publicJwk,
+    });
+    expect(key.publicJwk.d).toBeUndefined();
+    expect(payload).toMatchObject({
+      htm: "POST",
+      htu: "https://auth.example.com/oauth/token/",
+      nonce: "nonce-1",
+      ath: createHash("sha256").update("access-1").digest("base64url"),
+    });
+    expect(typeof payload.jti).toBe("string");
+    expect(typeof payload.iat).toBe("number");
+  });
+
+  it("should persist the software key until it is deleted", async () => {
+    const storage = createStorage();
+    const provider = new SoftwareDPoPKeyProvider(storage);
+
+    const key = await provider.getKey();
+    const reloaded = await new SoftwareDPoPKeyProvider(storage).getKey();
+    expect(reloaded.publicJwk).toEqual(key.publicJwk);
+    expect(storage.items.has(STORAGE_KEYS.DPOP_KEY)).toBe(true);
+
+    await provider.deleteKey();
+    expect(storage.items.has(STORAGE_KEYS.DPOP_KEY)).toBe(false);
+    expect((await provider.getKey()).publicJwk).not.toEqual(key.publicJwk);
+  });
+});
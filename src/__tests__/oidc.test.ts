@@ -0,0 +1,132 @@
+import { createHash, createSign, generateKeyPairSync } from "crypto";
+import * as Crypto from "expo-crypto";
+import { parseJwt, base64UrlDecode, decodeJwtClaimsUnsafe } from "../utils/jwt";
+import { verifyJwtSignature, validateIdTokenClaims } from "../utils/oidc";
+import { JsonWebKey, IdTokenClaims } from "../types";
+import { TokenError } from "../errors";
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+const jwk = publicKey.export({ format: "jwk" }) as JsonWebKey;
+
+function signJwt(payload: Record<string, unknown>, alg = "RS256"): string {
+  const header = base64Url(JSON.stringify({ alg, kid: "key-1", typ: "JWT" }));
+  const body = base64Url(JSON.stringify(payload));
+  const signer = createSign("RSA-SHA256");
+  signer.update(`${header}.${body}`);
+  return `${header}.${body}.${base64Url(signer.sign(privateKey))}`;
+}
+
+describe("OIDC Utils", () => {
+  beforeEach(() => {
+    (Crypto.digestStringAsync as jest.Mock).mockImplementation(
+      async (_algorithm: string, data: string) =>
+        createHash("sha256").update(data).digest("hex"),
+    );
+  });
+
+  describe("parseJwt", () => {
+    it("should decode header and payload", () => {
+      const jwt = parseJwt(signJwt({ sub: "user-1", name: "Zoë" }));
+      expect(jwt.header.alg).toBe("RS256");
+      expect(jwt.header.kid).toBe("key-1");
+      expect(jwt.payload).toEqual({ sub: "user-1", name: "Zoë" });
+    });
+
+    it("should reject malformed tokens", () => {
+      expect(() => parseJwt("not-a-jwt")).toThrow(TokenError);
+      expect(() => parseJwt("a.b.c")).toThrow(TokenError);
+    });
+
+    it("should decode base64url without padding", () => {
+      expect(base64UrlDecode(base64Url("hello?>"))).toBe("hello?>");
+    });
+  });
+
+  describe("decodeJwtClaimsUnsafe", () => {
+    it("should return the payload without checking the signature", () => {
+      const [header, body] = signJwt({ sub: "user-1" }).split(".");
+      expect(decodeJwtClaimsUnsafe(`${header}.${body}.forged`)).toEqual({
+        sub: "user-1",
+      });
+    });
+
+    it("should return null for opaque tokens", () => {
+      expect(decodeJwtClaimsUnsafe("opaque-access-token")).toBeNull();
+      expect(decodeJwtClaimsUnsafe("a.b.c")).toBeNull();
+    });
+  });
+
+  describe("verifyJwtSignature", () => {
+    it("should accept a valid RS256 signature", async () => {
+      const jwt = parseJwt(signJwt({ sub: "user-1" }));
+      await expect(verifyJwtSignature(jwt, jwk)).resolves.toBe(true);
+    });
+
+    it("should reject a tampered payload", async () => {
+      const [header, , signature] = signJwt({ sub: "user-1" }).split(".");
+      const forged = `${header}.${base64Url(JSON.stringify({ sub: "admin" }))}.${signature}`;
+      await expect(verifyJwtSignature(parseJwt(forged), jwk)).resolves.toBe(
+        false,
+      );
+    });
+
+    it("should refuse unsupported algorithms", async () => {
+      const jwt = parseJwt(signJwt({ sub: "user-1" }, "none"));
+      await expect(verifyJwtSignature(jwt, jwk)).rejects.toThrow(TokenError);
+    });
+  });
+
+  describe("validateIdTokenClaims", () => {
+    const now = 1_700_000_000_000;
+    const claims: IdTokenClaims = {
+      iss: "https://auth.example.com",
+      sub: "user-1",
+      aud: "test-client",
+      exp: now / 1000 + 300,
+      iat: now / 1000,
+      nonce: "nonce-1",
+    };
+    const options = {
+      issuer: "https://auth.example.com/",
+      clientId: "test-client",
+      nonce: "nonce-1",
+      leeway: 60,
+      now,
+    };
+
+    it("should accept valid claims", () => {
+      expect(() => validateIdTokenClaims(claims, options)).not.toThrow();
+    });
+
+    it.each([
+      ["issuer", { iss: "https://evil.example.com" }],
+      ["audience", { aud: "other-client" }],
+      ["expiry", { exp: now / 1000 - 120 }],
+      ["issued at", { iat: now / 1000 + 120 }],
+      ["nonce", { nonce: "other-nonce" }],
+    ])("should reject an invalid %s", (_name, override) => {
+      expect(() =>
+        validateIdTokenClaims({ ...claims, ...override }, options),
+      ).toThrow(TokenError);
+    });
+
+    it("should skip the nonce check when no nonce is expected", () => {
+      expect(() =>
+        validateIdTokenClaims(
+          { ...claims, nonce: undefined },
+          { ...options, nonce: undefined },
+        ),
+      ).not.toThrow();
+    });
+  });
+});
@@ -2,7 +2,12 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as SecureStore from "expo-secure-store";
 import { AsyncStorageAdapter } from "../storage/AsyncStorageAdapter";
 import { SecureStoreAdapter } from "../storage/SecureStoreAdapter";
+import {
+  NamespacedStorage,
+  getClientNamespace,
+} from "../storage/NamespacedStorage";
 import { StorageError } from "../errors";
+import { STORAGE_KEYS } from "../utils/constants";
 
 describe("Storage Adapters", () => {
   describe("AsyncStorageAdapter", () => {
@@ -92,7 +97,9 @@ describe("Storage Adapters", () => {
 
     it("should clear known keys", async () => {
       await adapter.clear();
-      expect(SecureStore.deleteItemAsync).toHaveBeenCalledTimes(8); // Number of known keys
+      expect(SecureStore.deleteItemAsync).toHaveBeenCalledTimes(
+        Object.keys(STORAGE_KEYS).length,
+      );
     });
 
     it("should throw StorageError on failure", async () => {
@@ -102,4 +109,52 @@ describe("Storage Adapters", () => {
       await expect(adapter.getItem("test-key")).rejects.toThrow(StorageError);
     });
   });
+
+  describe("NamespacedStorage", () => {
+    let adapter: AsyncStorageAdapter;
+
+    beforeEach(() => {
+      adapter = new AsyncStorageAdapter();
+      jest.clearAllMocks();
+    });
+
+    it("should prefix keys with the namespace", async () => {
+      await new NamespacedStorage(adapter, "tenant-a.").setItem(
+        STORAGE_KEYS.ACCESS_TOKEN,
+        "token",
+      );
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        "@omam-authkit:tenant-a.access_token",
+        "token",
+      );
+    });
+
+    it("should only clear its own keys", async () => {
+      await new NamespacedStorage(adapter, "tenant-a.").clear();
+      expect(AsyncStorage.multiRemove).not.toHaveBeenCalled();
+      expect(AsyncStorage.removeItem).toHaveBeenCalledTimes(
+        Object.keys(STORAGE_KEYS).length,
+      );
+      (AsyncStorage.removeItem as jest.Mock).mock.calls.forEach(([key]) =>
+        expect(key).toMatch(/^@omam-authkit:tenant-a\./),
+      );
+    });
+
+    it("should derive a namespace per server and client", () => {
+      const namespace = getClientNamespace("https://a.example.com", "app");
+      expect(getClientNamespace("https://a.example.com/", "app")).toBe(
+        namespace,
+      );
+      expect(getClientNamespace("https://b.example.com", "app")).not.toBe(
+        namespace,
+      );
+      expect(getClientNamespace("https://a.example.com", "other")).not.toBe(
+        namespace,
+      );
+      expect(namespace).toMatch(/^[0-9a-f]{8}$/);
+      expect(
+        getClientNamespace("https://a.example.com", "app", "tenant:a"),
+      ).toBe("tenant_a");
+    });
+  });
 });
@@ -1,6 +1,12 @@
-import axios, { AxiosInstance, AxiosError } from "axios";
+import axios, {
+  AxiosInstance,
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
 import * as WebBrowser from "expo-web-browser";
 import {
+  Account,
   AuthKitConfig,
   User,
   TokenResponse,
@@ -12,6 +18,30 @@ import {
   StorageAdapter,
   UpdateProfileData,
   Scope,
+  RequestOptions,
+  AuthHttpOptions,
+  IntrospectionResponse,
+  TokenTypeHint,
+  TokenMetadata,
+  IdTokenClaims,
+  AccessTokenClaims,
+  DeviceAuthorizationResponse,
+  PushedAuthorizationResponse,
+  RetryOperation,
+  RequestRetryEvent,
+  DeviceLogin,
+  DevicePollOptions,
+  DeviceVerificationLink,
+  TokenExchangeOptions,
+  TokenExchangeResponse,
+  ExchangedToken,
+  AccessTokenOptions,
+  DPoPKeyProvider,
+  JsonWebKey,
+  OpenIDConfiguration,
+  AuthKitEndpoints,
+  LogoutOptions,
+  LogoutResult,
 } from "./types";
 import {
   AuthKitError,
@@ -23,29 +53,115 @@ import {
 } from "./errors";
 import { AsyncStorageAdapter } from "./storage/AsyncStorageAdapter";
 import { SecureStoreAdapter } from "./storage/SecureStoreAdapter";
-import { generatePKCEParams, generateState } from "./utils/pkce";
-import { buildAuthorizationUrl, parseDeepLinkUrl } from "./utils/deepLink";
+import {
+  AccountStorage,
+  LegacySessionTokens,
+  createAccountId,
+} from "./storage/AccountStorage";
+import {
+  NamespacedStorage,
+  getClientNamespace,
+} from "./storage/NamespacedStorage";
+import { generatePKCEParams, generateState, generateNonce } from "./utils/pkce";
+import {
+  buildAuthorizationUrl,
+  parseDeepLinkUrl,
+  parseDeviceVerificationUrl,
+} from "./utils/deepLink";
+import { parseScopes, mergeScopes } from "./utils/scopes";
 import {
   STORAGE_KEYS,
   ENDPOINTS,
   GRANT_TYPES,
   EVENTS,
   DEFAULTS,
+  DISCOVERY_PATH,
+  TOKEN_TYPES,
+  CLOCK_OFFSET_STORAGE_KEY,
+  DISCOVERY_STORAGE_KEY,
 } from "./utils/constants";
+import { isAllowedOrigin } from "./utils/validation";
+import { parseJwt, decodeJwtClaimsUnsafe } from "./utils/jwt";
+import { verifyJwtSignature, validateIdTokenClaims } from "./utils/oidc";
+import { createDPoPProof } from "./utils/dpop";
+import { estimateClockOffset } from "./utils/clock";
+import {
+  RetryPolicy,
+  resolveRetryPolicy,
+  isRetryableError,
+  isTransientError,
+  getRetryDelay,
+} from "./utils/retry";
+
+/**
+ * Axios request config with AuthKit's per-request flags
+ */
+type AuthRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+  _dpopRetry?: boolean;
+  withAuth?: boolean;
+};
+
+/**
+ * Named AuthKit server endpoints
+ */
+type EndpointName = Exclude<keyof AuthKitEndpoints, "SOCIAL_LOGIN">;
+
+/**
+ * Discovery metadata fields that map onto AuthKit endpoints
+ */
+const DISCOVERY_ENDPOINTS: Partial<
+  Record<EndpointName, keyof OpenIDConfiguration>
+> = {
+  AUTHORIZE: "authorization_endpoint",
+  TOKEN: "token_endpoint",
+  USERINFO: "userinfo_endpoint",
+  INTROSPECT: "introspection_endpoint",
+  REVOKE: "revocation_endpoint",
+  JWKS: "jwks_uri",
+  END_SESSION: "end_session_endpoint",
+  DEVICE_AUTHORIZATION: "device_authorization_endpoint",
+  PAR: "pushed_authorization_request_endpoint",
+};
 
 /**
  * Main AuthKit React Native SDK client
+ * @typeParam TScope - Scope strings used by this app (defaults to the built-in `Scope`)
+ * @typeParam TUser - Shape of the user profile returned by the API
  */
-export class AuthKitClient {
-  private config: Required<AuthKitConfig>;
+export class AuthKitClient<TScope extends string = Scope, TUser = User> {
+  private config: Required<AuthKitConfig<TScope>>;
   private http: AxiosInstance;
-  private storage: StorageAdapter;
+  private api: AxiosInstance;
+  private storage: AccountStorage;
+  private clientStorage: StorageAdapter;
   private eventListeners: Map<AuthEvent, Set<EventListener>>;
-  private lastRefreshAttempt: number = 0;
-  private readonly REFRESH_COOLDOWN = 1000; // 1 second
+  private refreshPromise: Promise<TokenResponse> | null = null;
+  private clientCredentialsCache = new Map<string, Promise<TokenMetadata>>();
+  private tokenExchangeCache = new Map<string, Promise<ExchangedToken>>();
+  private resourceTokenCache = new Map<string, Promise<TokenMetadata>>();
+  private refreshGrantQueue: Promise<unknown> = Promise.resolve();
+  private dpopKeys: DPoPKeyProvider | null = null;
+  private dpopNonces = new Map<string, string>();
+  private jwks: { keys: JsonWebKey[]; fetchedAt: number } | null = null;
+  private discovery: {
+    metadata: OpenIDConfiguration;
+    fetchedAt: number;
+  } | null = null;
+  private discoveryPromise: Promise<OpenIDConfiguration | null> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private clockOffset = 0;
+  private clockOffsetPromise: Promise<void> | null = null;
+  private retryPolicy: RetryPolicy | null;
   private readonly USER_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-  constructor(config: AuthKitConfig) {
+  private readonly MAX_TIMER_DELAY = 2147483647; // setTimeout limit (~24.8 days)
+  private readonly MIN_REFRESH_DELAY = 5 * 1000; // 5 seconds
+  private readonly REFRESH_RETRY_DELAY = 30 * 1000; // 30 seconds
+  private readonly JWKS_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
+  private readonly ID_TOKEN_LEEWAY = 60; // seconds
+  private readonly DISCOVERY_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+  constructor(config: AuthKitConfig<TScope>) {
     // Validate required config
     if (!config.authKitUrl) {
       throw new ConfigurationError("authKitUrl is required");
@@ -64,13 +180,17 @@ export class AuthKitClient {
       redirectUri: config.redirectUri,
       scopes: Array.isArray(config.scopes)
         ? config.scopes
-        : ([...DEFAULTS.SCOPES] as Scope[]),
+        : ([...DEFAULTS.SCOPES] as TScope[]),
       pkce: config.pkce !== undefined ? Boolean(config.pkce) : DEFAULTS.PKCE,
       autoRefresh:
         config.autoRefresh !== undefined
           ? Boolean(config.autoRefresh)
           : DEFAULTS.AUTO_REFRESH,
       refreshThreshold: config.refreshThreshold || DEFAULTS.REFRESH_THRESHOLD,
+      expiryLeeway:
+        config.expiryLeeway !== undefined
+          ? config.expiryLeeway
+          : DEFAULTS.EXPIRY_LEEWAY,
       timeout: config.timeout || DEFAULTS.TIMEOUT,
       debug:
         config.debug !== undefined ? Boolean(config.debug) : DEFAULTS.DEBUG,
@@ -79,16 +199,62 @@ export class AuthKitClient {
           ? Boolean(config.secureStorage)
           : DEFAULTS.SECURE_STORAGE,
       headers: config.headers || {},
+      endpoints: config.endpoints || {},
+      resourceServers: config.resourceServers || [],
+      oidc: config.oidc !== undefined ? Boolean(config.oidc) : DEFAULTS.OIDC,
+      issuer: config.issuer || config.authKitUrl,
+      discovery:
+        config.discovery !== undefined
+          ? Boolean(config.discovery)
+          : DEFAULTS.DISCOVERY,
+      rolesClaim: config.rolesClaim || DEFAULTS.ROLES_CLAIM,
+      resources: config.resources || [],
+      dpop: config.dpop !== undefined ? Boolean(config.dpop) : DEFAULTS.DPOP,
+      dpopKeyProvider: config.dpopKeyProvider,
+      par: config.par !== undefined ? Boolean(config.par) : DEFAULTS.PAR,
+      retry: config.retry,
       storage: config.storage,
+      instanceId: config.instanceId,
+      adoptLegacySession: Boolean(config.adoptLegacySession),
       clientSecret: config.clientSecret,
-    } as Required<AuthKitConfig>;
+    } as Required<AuthKitConfig<TScope>>;
 
-    // Initialize storage
-    this.storage =
+    // Initialize storage (namespaced per client and signed-in account)
+    const adapter =
       this.config.storage ||
       (this.config.secureStorage
         ? new SecureStoreAdapter()
         : new AsyncStorageAdapter());
+    const namespace = getClientNamespace(
+      this.config.authKitUrl,
+      this.config.clientId,
+      this.config.instanceId,
+    );
+    this.clientStorage = new NamespacedStorage(adapter, `${namespace}.`);
+    // A session stored before namespacing doesn't record its client, so
+    // clients with an explicit instanceId (including environments) only
+    // adopt it when asked to
+    this.storage = new AccountStorage(
+      this.clientStorage,
+      this.config.instanceId && !this.config.adoptLegacySession
+        ? undefined
+        : adapter,
+      (tokens) => this.ownsLegacySession(tokens),
+    );
+
+    this.retryPolicy = resolveRetryPolicy(this.config.retry);
+
+    // None of the SDK's dependencies can keep a signing key in a platform
+    // keystore, and a key in app storage leaks along with the tokens it
+    // protects, so the app brings its own key
+    if (this.config.dpop) {
+      if (!this.config.dpopKeyProvider) {
+        throw new ConfigurationError(
+          "dpopKeyProvider is required when dpop is enabled: the SDK does not generate DPoP keys itself, see the DPoP section of the README",
+        );
+      }
+      this.dpopKeys = this.config.dpopKeyProvider;
+    }
 
     // Initialize event listeners
     this.eventListeners = new Map();
@@ -103,8 +269,28 @@ export class AuthKitClient {
       },
     });
 
+    // Create HTTP client for application resource servers
+    this.api = axios.create({
+      timeout: this.config.timeout,
+    });
+
     // Setup interceptors
-    this.setupInterceptors();
+    const protectedEndpoints: EndpointName[] = [
+      "USERINFO",
+      "PROFILE",
+      "INTROSPECT",
+      "REVOKE",
+      "DEVICE_VERIFICATION",
+    ];
+    this.setupInterceptors(
+      this.http,
+      (config) =>
+        config.withAuth !== false &&
+        protectedEndpoints.some((name) =>
+          config.url?.includes(this.getEndpoint(name)),
+        ),
+    );
+    this.attachInterceptors(this.api);
 
     this.log("AuthKit React Native SDK initialized", this.config);
   }
@@ -159,57 +345,127 @@ export class AuthKitClient {
 
   /**
    * Setup HTTP interceptors for automatic token refresh
+   * @param instance - Axios instance to install the interceptors on
+   * @param requiresAuth - Whether a request may carry the access token
+   * @returns Function that removes the interceptors again
    */
-  private setupInterceptors(): void {
-    // List of endpoints that require authentication
-    const protectedEndpoints = [
-      ENDPOINTS.USERINFO,
-      ENDPOINTS.PROFILE,
-      ENDPOINTS.INTROSPECT,
-      ENDPOINTS.REVOKE,
-    ];
-
+  private setupInterceptors(
+    instance: AxiosInstance,
+    requiresAuth: (config: AuthRequestConfig) => boolean,
+  ): () => void {
     // Request interceptor - add auth header
-    this.http.interceptors.request.use(
+    const requestInterceptor = instance.interceptors.request.use(
       async (config) => {
-        // Only add authorization header to protected endpoints
-        if (
-          config.url &&
-          protectedEndpoints.some((endpoint) => config.url?.includes(endpoint))
-        ) {
-          const token = await this.getAccessToken();
+        const url = instance.getUri(config);
+        let token: string | null = null;
+
+        // Only add authorization header to protected requests
+        if (requiresAuth(config)) {
+          // Hold requests issued during a refresh until the new token is stored
+          if (this.refreshPromise) {
+            await this.refreshPromise.catch(() => undefined);
+          }
+
+          token = await this.getAccessTokenForUrl(url);
           if (token) {
-            config.headers.Authorization = `Bearer ${token}`;
+            config.headers.Authorization =
+              await this.formatAuthorization(token);
           }
         }
+
+        // Token requests and token-bearing requests prove key possession
+        const isTokenRequest =
+          instance === this.http &&
+          !!config.url?.includes(this.getEndpoint("TOKEN"));
+        if (this.dpopKeys && (token || isTokenRequest)) {
+          config.headers.DPoP = await this.createDPoPHeader(
+            config.method || "get",
+            url,
+            token,
+          );
+        }
         return config;
       },
       (error) => Promise.reject(error),
     );
 
     // Response interceptor - handle errors
-    this.http.interceptors.response.use(
-      (response) => response,
+    const responseInterceptor = instance.interceptors.response.use(
+      async (response) => {
+        this.storeDPoPNonce(
+          instance.getUri(response.config),
+          response.headers["dpop-nonce"],
+        );
+        if (instance === this.http) {
+          await this.updateClockOffset(response);
+        }
+        return response;
+      },
       async (error: AxiosError) => {
-        const originalRequest = error.config as typeof error.config & {
-          _retry?: boolean;
-        };
+        const originalRequest = error.config as AuthRequestConfig | undefined;
+
+        // Replay once with the nonce the server asked for (RFC 9449, section 8)
+        if (
+          this.dpopKeys &&
+          originalRequest &&
+          !originalRequest._dpopRetry &&
+          error.response
+        ) {
+          const url = instance.getUri(originalRequest);
+          const nonce = error.response.headers["dpop-nonce"];
+          this.storeDPoPNonce(url, nonce);
+          if (
+            nonce &&
+            this.isDPoPNonceChallenge(
+              error.response.data,
+              error.response.headers["www-authenticate"],
+            )
+          ) {
+            originalRequest._dpopRetry = true;
+            return instance(originalRequest);
+          }
+        }
 
-        // Handle 401 Unauthorized - try to refresh token
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        // Handle 401 Unauthorized - try to refresh token. Only requests we
+        // authenticated are retried, so a failing refresh grant never recurses.
+        if (
+          error.response?.status === 401 &&
+          originalRequest?.headers?.Authorization &&
+          !originalRequest._retry
+        ) {
           originalRequest._retry = true;
+          const url = instance.getUri(originalRequest);
+          const resource = this.matchResource(url);
 
           try {
-            await this.refreshAccessToken();
+            if (resource) {
+              // Mint a new token for the resource on the retry
+              this.resourceTokenCache.delete(resource);
+            } else {
+              // Skip the refresh when another caller already rotated the
+              // token after this request was sent; replay it with the new one
+              const sentWith = originalRequest.headers.Authorization;
+              const current = await this.getAccessToken();
+              if (
+                !current ||
+                sentWith === (await this.formatAuthorization(current))
+              ) {
+                await this.refreshAccessToken();
+              }
+            }
 
             // Retry original request
-            const token = await this.getAccessToken();
+            const token = await this.getAccessTokenForUrl(url);
             if (token && originalRequest.headers) {
-              originalRequest.headers.Authorization = `Bearer ${token}`;
+              originalRequest.headers.Authorization =
+                await this.formatAuthorization(token);
             }
-            return this.http(originalRequest);
+            return instance(originalRequest);
           } catch (refreshError) {
-            this.emit(EVENTS.TOKEN_EXPIRED, { error: refreshError });
+            // performTokenRefresh reports session refresh failures itself
+            if (resource && !isTransientError(refreshError)) {
+              this.emit(EVENTS.TOKEN_EXPIRED, { error: refreshError });
+            }
             throw refreshError;
           }
         }
@@ -217,6 +473,234 @@ export class AuthKitClient {
         throw this.handleError(error);
       },
     );
+
+    return () => {
+      instance.interceptors.request.eject(requestInterceptor);
+      instance.interceptors.response.eject(responseInterceptor);
+    };
+  }
+
+  /**
+   * Authorization header value for a token: the `DPoP` scheme for
+   * DPoP-bound tokens, `Bearer` otherwise
+   */
+  private async formatAuthorization(token: string): Promise<string> {
+    if (this.dpopKeys) {
+      const tokenType = await this.storage.getItem(STORAGE_KEYS.TOKEN_TYPE);
+      if (tokenType?.toLowerCase() === "dpop") {
+        return `DPoP ${token}`;
+      }
+    }
+    return `Bearer ${token}`;
+  }
+
+  /**
+   * Create a DPoP proof for a request, using the last nonce of its origin
+   */
+  private async createDPoPHeader(
+    method: string,
+    url: string,
+    accessToken: string | null,
+  ): Promise<string> {
+    const key = await (this.dpopKeys as DPoPKeyProvider).getKey();
+    const origin = this.getOrigin(url);
+    // Servers reject proofs whose iat is off, so use the server's clock
+    await this.loadClockOffset();
+    return createDPoPProof(key, {
+      method,
+      url,
+      nonce: origin ? this.dpopNonces.get(origin) : undefined,
+      accessToken: accessToken ?? undefined,
+      now: this.now(),
+    });
+  }
+
+  /**
+   * Remember a `DPoP-Nonce` response header for later proofs to that origin
+   */
+  private storeDPoPNonce(url: string | undefined, nonce: unknown): void {
+    const origin = url ? this.getOrigin(url) : null;
+    if (this.dpopKeys && origin && typeof nonce === "string" && nonce) {
+      this.dpopNonces.set(origin, nonce);
+    }
+  }
+
+  /**
+   * Whether an error response asks for a proof with a server nonce: a token
+   * endpoint `use_dpop_nonce` error or a matching `WWW-Authenticate` challenge
+   */
+  private isDPoPNonceChallenge(
+    data: unknown,
+    wwwAuthenticate: unknown,
+  ): boolean {
+    return (
+      (typeof data === "object" &&
+        data !== null &&
+        (data as { error?: unknown }).error === "use_dpop_nonce") ||
+      (typeof wwwAuthenticate === "string" &&
+        wwwAuthenticate.includes("use_dpop_nonce"))
+    );
+  }
+
+  /**
+   * Origin of an absolute URL, or null for relative or invalid URLs
+   */
+  private getOrigin(url: string): string | null {
+    try {
+      return new URL(url).origin;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Install AuthKit token handling on your own axios instance
+   * Adds the bearer token to requests for allowed origins, retries once with
+   * a refreshed token on 401 and maps failures to AuthKitError subclasses.
+   * @param instance - Axios instance to attach to
+   * @param options - Origins allowed to receive the token (defaults to `resourceServers`)
+   * @returns Function that detaches the interceptors again
+   */
+  attachInterceptors(
+    instance: AxiosInstance,
+    options: AuthHttpOptions = {},
+  ): () => void {
+    return this.setupInterceptors(
+      instance,
+      (config) =>
+        config.withAuth !== false &&
+        this.isResourceServerUrl(instance.getUri(config), options.hosts),
+    );
+  }
+
+  /**
+   * Get the URL or path of an endpoint
+   * Precedence: `endpoints` config override, discovery metadata, built-in default
+   */
+  private getEndpoint(name: EndpointName): string {
+    const override = this.config.endpoints[name];
+    if (override) {
+      return override;
+    }
+
+    const field = DISCOVERY_ENDPOINTS[name];
+    const discovered = field ? this.discovery?.metadata[field] : undefined;
+    if (typeof discovered === "string" && discovered) {
+      return discovered;
+    }
+    return ENDPOINTS[name];
+  }
+
+  /**
+   * Resolve an endpoint, loading discovery metadata first when enabled
+   */
+  private async resolveEndpoint(name: EndpointName): Promise<string> {
+    await this.loadDiscovery();
+    return this.getEndpoint(name);
+  }
+
+  /**
+   * Turn an endpoint path into an absolute URL on the AuthKit server
+   */
+  private toAbsoluteUrl(endpoint: string): string {
+    return /^https?:\/\//i.test(endpoint)
+      ? endpoint
+      : `${this.config.authKitUrl}${endpoint}`;
+  }
+
+  /**
+   * Load OIDC discovery metadata (memory → storage cache → network)
+   * Concurrent callers share one fetch
+   */
+  private async loadDiscovery(
+    forceRefresh: boolean = false,
+  ): Promise<OpenIDConfiguration | null> {
+    if (!this.config.discovery) {
+      return null;
+    }
+
+    if (
+      !forceRefresh &&
+      this.discovery &&
+      Date.now() - this.discovery.fetchedAt < this.DISCOVERY_CACHE_DURATION
+    ) {
+      return this.discovery.metadata;
+    }
+
+    if (!this.discoveryPromise) {
+      this.discoveryPromise = this.fetchDiscovery(forceRefresh).finally(() => {
+        this.discoveryPromise = null;
+      });
+    }
+    return this.discoveryPromise;
+  }
+
+  /**
+   * Read discovery metadata from the storage cache or fetch it from
+   * `${issuer}/.well-known/openid-configuration`
+   */
+  private async fetchDiscovery(
+    forceRefresh: boolean,
+  ): Promise<OpenIDConfiguration> {
+    let cached: { metadata: OpenIDConfiguration; fetchedAt: number } | null =
+      null;
+
+    try {
+      const raw = await this.clientStorage.getItem(DISCOVERY_STORAGE_KEY);
+      cached = raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      this.log("Failed to read cached discovery metadata", error);
+    }
+
+    if (
+      !forceRefresh &&
+      cached &&
+      Date.now() - cached.fetchedAt < this.DISCOVERY_CACHE_DURATION
+    ) {
+      this.discovery = cached;
+      return cached.metadata;
+    }
+
+    try {
+      const issuer = this.config.issuer.replace(/\/+$/, "");
+      const response = await this.http.get<OpenIDConfiguration>(
+        `${issuer}${DISCOVERY_PATH}`,
+      );
+      const metadata = response.data;
+
+      if (metadata.issuer && metadata.issuer.replace(/\/+$/, "") !== issuer) {
+        throw new ConfigurationError(
+          `Discovery issuer mismatch: expected ${issuer}, got ${metadata.issuer}`,
+        );
+      }
+
+      this.discovery = { metadata, fetchedAt: Date.now() };
+      await this.clientStorage.setItem(
+        DISCOVERY_STORAGE_KEY,
+        JSON.stringify(this.discovery),
+      );
+
+      this.log("Loaded discovery metadata", { issuer: metadata.issuer });
+      return metadata;
+    } catch (error) {
+      // A stale document beats failing every request while offline
+      if (cached && !(error instanceof ConfigurationError)) {
+        this.log("Discovery fetch failed, using stale metadata", error);
+        this.discovery = cached;
+        return cached.metadata;
+      }
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the OIDC discovery document (null when discovery is disabled)
+   * @param forceRefresh - Bypass the cache and refetch the document
+   */
+  async getDiscoveryDocument(
+    forceRefresh: boolean = false,
+  ): Promise<OpenIDConfiguration | null> {
+    return await this.loadDiscovery(forceRefresh);
   }
 
   /**
@@ -282,6 +766,19 @@ export class AuthKitClient {
     }
   }
 
+  /**
+   * Stop background work and drop all event listeners and cached tokens
+   * Call this before discarding a client (e.g. when switching environments).
+   * Stored sessions are kept.
+   */
+  dispose(): void {
+    this.cancelTokenRefresh();
+    this.eventListeners.clear();
+    this.clientCredentialsCache.clear();
+    this.tokenExchangeCache.clear();
+    this.resourceTokenCache.clear();
+  }
+
   /**
    * Emit event to all listeners
    */
@@ -296,92 +793,138 @@ export class AuthKitClient {
    * Start OAuth login flow
    */
   async login(): Promise<void> {
-    try {
-      // Generate state for CSRF protection
-      const state = generateState();
-      await this.storage.setItem(STORAGE_KEYS.OAUTH_STATE, state);
+    return this.runLogin();
+  }
 
-      // Generate PKCE parameters if enabled
-      let codeChallenge: string | undefined;
-      let codeChallengeMethod: string | undefined;
+  /**
+   * Run the browser login flow
+   * @param extraParams - Additional authorization request parameters
+   */
+  private async runLogin(
+    extraParams: Record<string, string> = {},
+  ): Promise<void> {
+    try {
+      const authUrl = await this.buildAuthorizationRequest(
+        this.getRequestedScopes(),
+        extraParams,
+      );
+      const callback = await this.authorizeInBrowser(authUrl);
 
-      if (this.config.pkce) {
-        const pkceParams = await generatePKCEParams();
-        await this.storage.setItem(
-          STORAGE_KEYS.PKCE_VERIFIER,
-          pkceParams.codeVerifier,
-        );
-        codeChallenge = pkceParams.codeChallenge;
-        codeChallengeMethod = pkceParams.codeChallengeMethod;
+      if (callback) {
+        // Exchange code for tokens
+        await this.handleCallback(callback.code, callback.state);
       }
+    } catch (error) {
+      // Ensure cleanup on any error
+      await this.cleanupOAuthState().catch(() => {
+        // Ignore cleanup errors
+      });
+      this.emit(EVENTS.AUTH_ERROR, error);
+      throw this.handleError(error);
+    }
+  }
 
-      // Build authorization URL
-      const params: Record<string, string> = {
-        client_id: this.config.clientId,
-        response_type: "code",
-        redirect_uri: this.config.redirectUri,
-        scope: this.config.scopes.join(" "),
-        state,
-      };
+  /**
+   * Open an authorization URL in the browser and validate the redirect
+   * @returns The code and state from the callback, or null if the browser was
+   * dismissed without a result
+   */
+  private async authorizeInBrowser(
+    authUrl: string,
+  ): Promise<{ code: string; state: string } | null> {
+    this.log("Opening authorization URL", authUrl);
+
+    // Open authorization URL in browser
+    const result = await WebBrowser.openAuthSessionAsync(
+      authUrl,
+      this.config.redirectUri,
+    );
 
-      if (codeChallenge && codeChallengeMethod) {
-        params.code_challenge = codeChallenge;
-        params.code_challenge_method = codeChallengeMethod;
-      }
+    if (result.type === "cancel") {
+      // Clean up state on user cancellation
+      await this.cleanupOAuthState();
+      throw new AuthenticationError("Login cancelled by user");
+    }
 
-      const authUrl = buildAuthorizationUrl(
-        `${this.config.authKitUrl}${ENDPOINTS.AUTHORIZE}`,
-        params,
-      );
+    if (result.type !== "success") {
+      return null;
+    }
 
-      this.log("Opening authorization URL", authUrl);
+    const { code, state: returnedState, error } = parseDeepLinkUrl(result.url);
 
-      // Open authorization URL in browser
-      const result = await WebBrowser.openAuthSessionAsync(
-        authUrl,
-        this.config.redirectUri,
-      );
+    if (error) {
+      // Clean up state on OAuth error
+      await this.cleanupOAuthState();
+      throw new AuthenticationError(`OAuth error: ${error}`);
+    }
 
-      if (result.type === "success") {
-        const {
-          code,
-          state: returnedState,
-          error,
-        } = parseDeepLinkUrl(result.url);
-
-        if (error) {
-          // Clean up state on OAuth error
-          await this.cleanupOAuthState();
-          throw new AuthenticationError(`OAuth error: ${error}`);
-        }
+    if (!code || !returnedState) {
+      // Clean up state on missing parameters
+      await this.cleanupOAuthState();
+      throw new AuthenticationError("Missing code or state in callback");
+    }
 
-        if (!code || !returnedState) {
-          // Clean up state on missing parameters
-          await this.cleanupOAuthState();
-          throw new AuthenticationError("Missing code or state in callback");
-        }
+    // Verify state
+    const savedState = await this.storage.getItem(STORAGE_KEYS.OAUTH_STATE);
+    if (returnedState !== savedState) {
+      // Clean up state on CSRF check failure
+      await this.cleanupOAuthState();
+      throw new AuthenticationError("Invalid state parameter");
+    }
 
-        // Verify state
-        const savedState = await this.storage.getItem(STORAGE_KEYS.OAUTH_STATE);
-        if (returnedState !== savedState) {
-          // Clean up state on CSRF check failure
-          await this.cleanupOAuthState();
-          throw new AuthenticationError("Invalid state parameter");
-        }
+    return { code, state: returnedState };
+  }
 
-        // Exchange code for tokens
-        await this.handleCallback(code, returnedState);
-      } else if (result.type === "cancel") {
-        // Clean up state on user cancellation
-        await this.cleanupOAuthState();
-        throw new AuthenticationError("Login cancelled by user");
+  /**
+   * Ask the user to consent to additional scopes (incremental authorization)
+   * Runs an authorization round trip when some scopes are not granted yet,
+   * requesting them together with the current ones. The new token replaces
+   * the session's, and its granted scopes are reported as they are.
+   * @param scopes - Scopes the app needs
+   * @returns Updated token metadata with the scopes of the new token
+   */
+  async requestAdditionalScopes(scopes: TScope[]): Promise<TokenMetadata> {
+    try {
+      const current = await this.getTokens();
+      if (!current) {
+        throw new AuthenticationError("Not authenticated");
+      }
+
+      const missing = scopes.filter((scope) => !current.scopes.includes(scope));
+      if (missing.length === 0) {
+        return current;
+      }
+
+      // The new token replaces the current one, so it must carry both
+      const requested = mergeScopes(
+        this.config.oidc ? ["openid"] : [],
+        current.scopes,
+        missing,
+      );
+      const authUrl = await this.buildAuthorizationRequest(requested, {
+        include_granted_scopes: "true",
+      });
+      const callback = await this.authorizeInBrowser(authUrl);
+
+      if (!callback) {
+        throw new AuthenticationError("Authorization was not completed");
       }
+
+      const tokens = await this.exchangeAuthorizationCode(callback.code);
+      await this.cleanupOAuthState();
+
+      // Report exactly what the new token carries (RFC 6749, section 5.1:
+      // an omitted scope means everything requested was granted)
+      const granted = tokens.scope ? parseScopes(tokens.scope) : requested;
+      await this.storage.setItem(STORAGE_KEYS.SCOPE, granted.join(" "));
+
+      const metadata = (await this.getTokens()) as TokenMetadata;
+      this.emit(EVENTS.SCOPES_GRANTED, metadata);
+      return metadata;
     } catch (error) {
-      // Ensure cleanup on any error
       await this.cleanupOAuthState().catch(() => {
         // Ignore cleanup errors
       });
-      this.emit(EVENTS.AUTH_ERROR, error);
       throw this.handleError(error);
     }
   }
@@ -393,6 +936,7 @@ export class AuthKitClient {
     try {
       await this.storage.removeItem(STORAGE_KEYS.OAUTH_STATE);
       await this.storage.removeItem(STORAGE_KEYS.PKCE_VERIFIER);
+      await this.storage.removeItem(STORAGE_KEYS.OAUTH_NONCE);
     } catch (error) {
       this.log("Failed to cleanup OAuth state", error);
     }
@@ -419,11 +963,6 @@ export class AuthKitClient {
         redirect_uri: this.config.redirectUri,
       };
 
-      // Add client secret if provided
-      if (this.config.clientSecret) {
-        body.client_secret = this.config.clientSecret;
-      }
-
       // Add PKCE verifier if enabled
       if (this.config.pkce) {
         const codeVerifier = await this.storage.getItem(
@@ -437,24 +976,16 @@ export class AuthKitClient {
       this.log("Exchanging code for tokens", { code, state });
 
       // Exchange code for tokens
-      const response = await this.http.post<TokenResponse>(
-        ENDPOINTS.TOKEN,
-        new URLSearchParams(body).toString(),
-        {
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-        },
-      );
+      const tokens = await this.postTokenRequest<TokenResponse>(body);
 
-      const tokens = response.data;
+      // Validate ID token before trusting anything in the response
+      await this.verifyIdToken(tokens, true);
 
       // Store tokens
-      await this.storeTokens(tokens);
+      await this.storeTokens(tokens, this.getRequestedScopes());
 
       // Cleanup
-      await this.storage.removeItem(STORAGE_KEYS.OAUTH_STATE);
-      await this.storage.removeItem(STORAGE_KEYS.PKCE_VERIFIER);
+      await this.cleanupOAuthState();
 
       // Fetch user profile
       const user = await this.getCurrentUser();
@@ -468,8 +999,14 @@ export class AuthKitClient {
 
   /**
    * Store tokens in storage
+   * @param tokens - Token response from the token endpoint
+   * @param fallbackScopes - Granted scopes to record when the response omits
+   * `scope` (RFC 6749, section 5.1). Defaults to the previously granted scopes.
    */
-  private async storeTokens(tokens: TokenResponse): Promise<void> {
+  private async storeTokens(
+    tokens: TokenResponse,
+    fallbackScopes?: string[],
+  ): Promise<void> {
     await this.storage.setItem(STORAGE_KEYS.ACCESS_TOKEN, tokens.access_token);
     await this.storage.setItem(STORAGE_KEYS.TOKEN_TYPE, tokens.token_type);
 
@@ -480,108 +1017,654 @@ export class AuthKitClient {
       );
     }
 
-    // Calculate expiry time
-    const expiresAt = Date.now() + tokens.expires_in * 1000;
+    if (tokens.id_token) {
+      await this.storage.setItem(STORAGE_KEYS.ID_TOKEN, tokens.id_token);
+    }
+
+    const grantedScopes = tokens.scope
+      ? parseScopes(tokens.scope)
+      : fallbackScopes;
+    if (grantedScopes) {
+      await this.storage.setItem(STORAGE_KEYS.SCOPE, grantedScopes.join(" "));
+    }
+
+    // Calculate expiry time on the server's clock
+    await this.loadClockOffset();
+    const expiresAt = this.now() + tokens.expires_in * 1000;
     await this.storage.setItem(STORAGE_KEYS.EXPIRES_AT, expiresAt.toString());
+
+    this.scheduleTokenRefresh(expiresAt);
   }
 
   /**
-   * Get access token from storage
+   * Schedule a background refresh `refreshThreshold` seconds before expiry
    */
-  async getAccessToken(): Promise<string | null> {
-    return await this.storage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+  private scheduleTokenRefresh(expiresAt: number): void {
+    this.cancelTokenRefresh();
+
+    if (!this.config.autoRefresh) {
+      return;
+    }
+
+    // Short-lived tokens are refreshed halfway through their remaining
+    // lifetime, so a token living shorter than `refreshThreshold` doesn't
+    // trigger an immediate refresh after every refresh
+    const remaining = expiresAt - this.now();
+    const lead = Math.min(this.config.refreshThreshold * 1000, remaining / 2);
+    const delay = Math.min(
+      Math.max(remaining - lead, this.MIN_REFRESH_DELAY),
+      this.MAX_TIMER_DELAY,
+    );
+
+    this.log("Scheduling token refresh", { delay });
+    this.startRefreshTimer(delay);
   }
 
   /**
-   * Get refresh token from storage
+   * Refresh the session after `delay`, trying again every
+   * REFRESH_RETRY_DELAY while the refresh fails with a transient error
    */
-  async getRefreshToken(): Promise<string | null> {
-    return await this.storage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+  private startRefreshTimer(delay: number): void {
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+
+      // Without a refresh token the session simply runs until expiry.
+      // refreshAccessToken emits token_refreshed / token_expired itself.
+      this.getRefreshToken()
+        .then((refreshToken) =>
+          refreshToken ? this.refreshAccessToken() : undefined,
+        )
+        .catch((error) => {
+          this.log("Scheduled token refresh failed", error);
+          if (isTransientError(error) && !this.refreshTimer) {
+            this.startRefreshTimer(this.REFRESH_RETRY_DELAY);
+          }
+        });
+    }, delay);
   }
 
   /**
-   * Check if user is authenticated
+   * Cancel any pending background token refresh
    */
-  async isAuthenticated(): Promise<boolean> {
-    const token = await this.getAccessToken();
-    if (!token) {
-      return false;
+  private cancelTokenRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
     }
+  }
 
-    // Check if token is expired
-    const expiresAt = await this.storage.getItem(STORAGE_KEYS.EXPIRES_AT);
-    if (expiresAt) {
-      const expiry = parseInt(expiresAt, 10);
-      if (Date.now() >= expiry) {
-        // Try to refresh token
-        try {
-          await this.refreshAccessToken();
-          return true;
-        } catch {
-          return false;
-        }
+  /**
+   * Whether a session stored before namespacing belongs to this client
+   * The first JWT among its ID and access token must name this client's
+   * issuer and client ID (decoded without verification). Sessions whose
+   * owner can't be told from the tokens need `adoptLegacySession`.
+   */
+  private ownsLegacySession({
+    accessToken,
+    idToken,
+  }: LegacySessionTokens): boolean {
+    for (const token of [idToken, accessToken]) {
+      const claims = token
+        ? decodeJwtClaimsUnsafe<AccessTokenClaims>(token)
+        : null;
+      if (claims && typeof claims.iss === "string") {
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        const clientIds = [...audiences, claims.azp, claims.client_id];
+        return (
+          claims.iss.replace(/\/+$/, "") ===
+            this.config.issuer.replace(/\/+$/, "") &&
+          clientIds.includes(this.config.clientId)
+        );
       }
     }
-
-    return true;
+    return this.config.adoptLegacySession;
   }
 
   /**
-   * Refresh access token with rate limiting
+   * Current time on the server's clock, in milliseconds
    */
-  async refreshAccessToken(): Promise<TokenResponse> {
-    try {
-      // Rate limiting check
-      const now = Date.now();
-      if (now - this.lastRefreshAttempt < this.REFRESH_COOLDOWN) {
-        throw new TokenError(
-          "Token refresh rate limit exceeded. Please wait before retrying.",
-        );
-      }
-      this.lastRefreshAttempt = now;
+  private now(): number {
+    return Date.now() + this.clockOffset;
+  }
 
-      const refreshToken = await this.getRefreshToken();
-      if (!refreshToken) {
-        throw new TokenError("No refresh token available");
-      }
+  /**
+   * Whether a token is expired or within `expiryLeeway` of its expiry
+   */
+  private isTokenExpired(expiresAt: number): boolean {
+    return this.getRemainingTokenLifetime(expiresAt) <= 0;
+  }
+
+  /**
+   * Time a token can still be used for, measured on the server's clock and
+   * reduced by `expiryLeeway`
+   * @param expiresAt - Expiry as reported by getTokens() (milliseconds)
+   * @returns Remaining lifetime in milliseconds (0 or less once expired)
+   */
+  getRemainingTokenLifetime(expiresAt: number): number {
+    return expiresAt - this.config.expiryLeeway * 1000 - this.now();
+  }
+
+  /**
+   * Estimated difference between the server and device clocks
+   * @returns Server time minus device time in milliseconds
+   */
+  getClockOffset(): number {
+    return this.clockOffset;
+  }
+
+  /**
+   * Load the clock offset persisted by an earlier session (once)
+   */
+  private loadClockOffset(): Promise<void> {
+    if (!this.clockOffsetPromise) {
+      this.clockOffsetPromise = (async () => {
+        try {
+          const value = await this.clientStorage.getItem(
+            CLOCK_OFFSET_STORAGE_KEY,
+          );
+          const offset = value ? parseInt(value, 10) : NaN;
+          if (Number.isFinite(offset)) {
+            this.clockOffset = offset;
+          }
+        } catch (error) {
+          this.log("Failed to load clock offset", error);
+        }
+      })();
+    }
+    return this.clockOffsetPromise;
+  }
+
+  /**
+   * Measure the server clock from a token response (`Date` header, or the
+   * token's `iat`) and persist the offset for expiry checks
+   */
+  private async updateClockOffset(response: AxiosResponse): Promise<void> {
+    const data = response.data as Partial<TokenResponse> | undefined;
+    if (typeof data?.access_token !== "string") {
+      return;
+    }
+
+    const claims =
+      decodeJwtClaimsUnsafe<{ iat?: number }>(data.access_token) ??
+      (data.id_token
+        ? decodeJwtClaimsUnsafe<{ iat?: number }>(data.id_token)
+        : null);
+    const offset = estimateClockOffset({
+      date: response.headers.date,
+      issuedAt: claims?.iat,
+    });
+    if (offset === null) {
+      return;
+    }
+
+    await this.loadClockOffset();
+    this.clockOffset = offset;
+    this.log("Server clock offset", { offset });
+    try {
+      await this.clientStorage.setItem(
+        CLOCK_OFFSET_STORAGE_KEY,
+        offset.toString(),
+      );
+    } catch (error) {
+      this.log("Failed to persist clock offset", error);
+    }
+  }
+
+  /**
+   * Scopes sent with authorization requests
+   * OIDC mode always includes `openid`
+   */
+  private getRequestedScopes(): string[] {
+    const scopes: string[] = [...this.config.scopes];
+    if (this.config.oidc && !scopes.includes("openid")) {
+      scopes.unshift("openid");
+    }
+    return scopes;
+  }
+
+  /**
+   * Scopes granted to the current session, as reported by the token endpoint
+   * Returns null if nothing has been recorded yet
+   */
+  private async getGrantedScopes(): Promise<string[] | null> {
+    const scope = await this.storage.getItem(STORAGE_KEYS.SCOPE);
+    return scope === null ? null : parseScopes(scope);
+  }
+
+  /**
+   * Validate the ID token in a token response (OIDC mode only)
+   * @param tokens - Token response from the token endpoint
+   * @param isLogin - Whether this response completes a login. Login responses
+   * must carry an ID token bound to the stored nonce; refresh responses may
+   * omit it.
+   */
+  private async verifyIdToken(
+    tokens: TokenResponse,
+    isLogin: boolean,
+  ): Promise<IdTokenClaims | null> {
+    if (!this.config.oidc) {
+      return null;
+    }
+
+    if (!tokens.id_token) {
+      if (isLogin) {
+        throw new TokenError("ID token missing from token response");
+      }
+      return null;
+    }
+
+    const jwt = parseJwt<IdTokenClaims>(tokens.id_token);
+    const key = await this.getSigningKey(jwt.header.kid);
+
+    if (!(await verifyJwtSignature(jwt, key))) {
+      throw new TokenError("Invalid ID token signature", "invalid_signature");
+    }
+
+    validateIdTokenClaims(jwt.payload, {
+      issuer: this.config.issuer,
+      clientId: this.config.clientId,
+      nonce: isLogin
+        ? await this.storage.getItem(STORAGE_KEYS.OAUTH_NONCE)
+        : undefined,
+      leeway: this.ID_TOKEN_LEEWAY,
+      now: this.now(),
+    });
+
+    this.log("ID token validated", { sub: jwt.payload.sub });
+    return jwt.payload;
+  }
+
+  /**
+   * Find the JWKS signing key for a key ID (with caching)
+   * Refetches the key set once when the key is unknown, to follow key rotation
+   */
+  private async getSigningKey(kid?: string): Promise<JsonWebKey> {
+    const findKey = () =>
+      this.jwks?.keys.find(
+        (key) => key.use !== "enc" && (kid === undefined || key.kid === kid),
+      );
+
+    const isFresh =
+      this.jwks !== null &&
+      Date.now() - this.jwks.fetchedAt < this.JWKS_CACHE_DURATION;
+
+    let key = isFresh ? findKey() : undefined;
+    if (!key) {
+      const response = await this.http.get<{ keys: JsonWebKey[] }>(
+        await this.resolveEndpoint("JWKS"),
+      );
+      this.jwks = { keys: response.data.keys || [], fetchedAt: Date.now() };
+      key = findKey();
+    }
+
+    if (!key) {
+      throw new TokenError(`No signing key found for kid: ${kid}`);
+    }
+    return key;
+  }
+
+  /**
+   * Get the stored ID token (OIDC mode only)
+   */
+  async getIdToken(): Promise<string | null> {
+    return await this.storage.getItem(STORAGE_KEYS.ID_TOKEN);
+  }
+
+  /**
+   * Get the claims of the stored ID token
+   * The token was validated when it was received, so these claims are trusted
+   */
+  async getIdTokenClaims(): Promise<IdTokenClaims | null> {
+    const idToken = await this.getIdToken();
+    if (!idToken) {
+      return null;
+    }
+
+    try {
+      return parseJwt<IdTokenClaims>(idToken).payload;
+    } catch (error) {
+      this.log("Failed to parse stored ID token", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the claims of the stored access token
+   * The signature is NOT verified: use the claims for UI decisions only.
+   * Returns null if there is no access token or it is not a JWT.
+   */
+  async getAccessTokenClaims<
+    T extends AccessTokenClaims = AccessTokenClaims,
+  >(): Promise<T | null> {
+    const accessToken = await this.getAccessToken();
+    return accessToken ? decodeJwtClaimsUnsafe<T>(accessToken) : null;
+  }
+
+  /**
+   * Get access token from storage
+   * With `resource`, returns an audience-restricted token for that resource
+   * (RFC 8707), minted with the refresh token and cached until it expires.
+   * @param options - Target resource
+   */
+  async getAccessToken(
+    options: AccessTokenOptions = {},
+  ): Promise<string | null> {
+    if (options.resource) {
+      const token = await this.getResourceToken(
+        options.resource,
+        options.forceRefresh,
+      );
+      return token?.accessToken ?? null;
+    }
+    return await this.storage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+  }
+
+  /**
+   * Get the cached token for a resource, minting a new one when needed
+   * Returns null if there is no session to mint from
+   */
+  private async getResourceToken(
+    resource: string,
+    forceRefresh: boolean = false,
+  ): Promise<TokenMetadata | null> {
+    if (!(await this.getRefreshToken())) {
+      return null;
+    }
+
+    if (!forceRefresh) {
+      const cached = this.resourceTokenCache.get(resource);
+      if (cached) {
+        try {
+          const token = await cached;
+          if (!this.isTokenExpired(token.expiresAt)) {
+            return token;
+          }
+        } catch {
+          // Fall through and mint a new token
+        }
+      }
+    }
+
+    const request = this.runRefreshGrant(() =>
+      this.requestResourceToken(resource),
+    );
+    this.resourceTokenCache.set(resource, request);
+
+    try {
+      return await request;
+    } catch (error) {
+      if (this.resourceTokenCache.get(resource) === request) {
+        this.resourceTokenCache.delete(resource);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mint an access token for a resource via the refresh_token grant
+   */
+  private async requestResourceToken(resource: string): Promise<TokenMetadata> {
+    try {
+      const refreshToken = await this.getRefreshToken();
+      if (!refreshToken) {
+        throw new TokenError("No refresh token available");
+      }
 
       const body: Record<string, string> = {
         grant_type: GRANT_TYPES.REFRESH_TOKEN,
         refresh_token: refreshToken,
         client_id: this.config.clientId,
+        resource,
       };
 
-      if (this.config.clientSecret) {
-        body.client_secret = this.config.clientSecret;
+      this.log("Requesting resource token", { resource });
+
+      const tokens = await this.postTokenRequest<TokenResponse>(body);
+
+      // Keep the session usable when the server rotates refresh tokens
+      if (tokens.refresh_token) {
+        await this.storage.setItem(
+          STORAGE_KEYS.REFRESH_TOKEN,
+          tokens.refresh_token,
+        );
       }
 
-      this.log("Refreshing access token");
+      return {
+        accessToken: tokens.access_token,
+        tokenType: tokens.token_type,
+        expiresAt: this.now() + tokens.expires_in * 1000,
+        scopes: tokens.scope
+          ? parseScopes(tokens.scope)
+          : ((await this.getGrantedScopes()) ?? []),
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * POST a form to an AuthKit endpoint, authenticated as this client
+   * Adds `client_secret` when configured and sends array values as repeated
+   * parameters.
+   * @param url - Endpoint URL or path
+   * @param params - Form parameters
+   * @param config - Extra request options
+   * @returns The response body
+   * @throws AuthKitError subclasses mapped from the failure
+   */
+  private async postForm<T = unknown>(
+    url: string,
+    params: Record<string, string | string[]>,
+    config: Pick<AuthRequestConfig, "_retry" | "withAuth"> = {},
+  ): Promise<T> {
+    const body = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach((item) => {
+        body.append(key, item);
+      });
+    });
+    if (this.config.clientSecret) {
+      body.append("client_secret", this.config.clientSecret);
+    }
 
-      const response = await this.http.post<TokenResponse>(
-        ENDPOINTS.TOKEN,
-        new URLSearchParams(body).toString(),
-        {
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
+    try {
+      const response = await this.http.post<T>(url, body.toString(), {
+        ...config,
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
         },
-      );
+      } as AuthRequestConfig);
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * POST a grant to the token endpoint (see postForm)
+   */
+  private async postTokenRequest<T = TokenResponse>(
+    params: Record<string, string>,
+  ): Promise<T> {
+    return this.postForm<T>(await this.resolveEndpoint("TOKEN"), params);
+  }
+
+  /**
+   * Run refresh_token grants one at a time
+   * A rotating refresh token may only be redeemed once, so session refreshes
+   * and resource token requests must not overlap.
+   */
+  private runRefreshGrant<T>(grant: () => Promise<T>): Promise<T> {
+    const result = this.refreshGrantQueue.then(grant, grant);
+    this.refreshGrantQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Send an idempotent request, retrying transient failures with
+   * exponential backoff and jitter as configured by `retry`
+   * Every retry emits `request_retry`.
+   */
+  private async withRetry<T>(
+    operation: RetryOperation,
+    request: () => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const policy = this.retryPolicy;
+        if (
+          !policy ||
+          attempt >= policy.maxAttempts ||
+          !isRetryableError(error, policy)
+        ) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(policy, attempt);
+        this.log("Retrying request", { operation, attempt, delay });
+        const event: RequestRetryEvent = { operation, attempt, delay, error };
+        this.emit(EVENTS.REQUEST_RETRY, event);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Find the configured resource a URL belongs to (longest match wins)
+   */
+  private matchResource(url: string | undefined): string | null {
+    if (!url) {
+      return null;
+    }
+
+    let match: string | null = null;
+    for (const resource of this.config.resources) {
+      const prefix = resource.replace(/\/+$/, "");
+      const rest = url.slice(prefix.length);
+      if (
+        url.startsWith(prefix) &&
+        (rest === "" || /^[/?#]/.test(rest)) &&
+        (!match || prefix.length > match.length)
+      ) {
+        match = resource;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Token to send to a URL: the resource's own token for configured
+   * `resources`, otherwise the session access token
+   */
+  private async getAccessTokenForUrl(
+    url: string | undefined,
+  ): Promise<string | null> {
+    const resource = this.matchResource(url);
+    return resource
+      ? await this.getAccessToken({ resource })
+      : await this.getAccessToken();
+  }
+
+  /**
+   * Get refresh token from storage
+   */
+  async getRefreshToken(): Promise<string | null> {
+    return await this.storage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+  }
+
+  /**
+   * Check if user is authenticated
+   */
+  async isAuthenticated(): Promise<boolean> {
+    const token = await this.getAccessToken();
+    if (!token) {
+      return false;
+    }
+
+    // Check if token is expired
+    const expiresAt = await this.storage.getItem(STORAGE_KEYS.EXPIRES_AT);
+    if (expiresAt) {
+      const expiry = parseInt(expiresAt, 10);
+      await this.loadClockOffset();
+      if (this.isTokenExpired(expiry)) {
+        // Try to refresh token
+        try {
+          await this.refreshAccessToken();
+          return true;
+        } catch {
+          return false;
+        }
+      }
+
+      // Resume background refresh for tokens restored from storage
+      if (!this.refreshTimer) {
+        this.scheduleTokenRefresh(expiry);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Refresh access token
+   * Concurrent callers share a single in-flight refresh and its result
+   */
+  async refreshAccessToken(): Promise<TokenResponse> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runRefreshGrant(() =>
+        this.performTokenRefresh(),
+      ).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Run the refresh_token grant and store the new tokens
+   */
+  private async performTokenRefresh(): Promise<TokenResponse> {
+    try {
+      const refreshToken = await this.getRefreshToken();
+      if (!refreshToken) {
+        throw new TokenError("No refresh token available");
+      }
+
+      const body: Record<string, string> = {
+        grant_type: GRANT_TYPES.REFRESH_TOKEN,
+        refresh_token: refreshToken,
+        client_id: this.config.clientId,
+      };
+
+      this.log("Refreshing access token");
 
-      const tokens = response.data;
+      const tokens = await this.withRetry("refresh", () =>
+        this.postTokenRequest<TokenResponse>(body),
+      );
+      await this.verifyIdToken(tokens, false);
       await this.storeTokens(tokens);
 
       this.emit(EVENTS.TOKEN_REFRESHED, tokens);
       return tokens;
     } catch (error) {
-      this.emit(EVENTS.TOKEN_EXPIRED, { error });
-      throw this.handleError(error);
+      const authError = this.handleError(error);
+      if (!isTransientError(authError)) {
+        this.emit(EVENTS.TOKEN_EXPIRED, { error: authError });
+      } else if (authError instanceof NetworkError && authError.statusCode) {
+        // The session may still be valid; requests that got no response
+        // already reported network_error
+        this.emit(EVENTS.NETWORK_ERROR, { error: authError });
+      }
+      throw authError;
     }
   }
 
   /**
    * Get current authenticated user (with cache expiry)
    */
-  async getCurrentUser(forceRefresh: boolean = false): Promise<User> {
+  async getCurrentUser(forceRefresh: boolean = false): Promise<TUser> {
     try {
       // Check cache first (unless force refresh)
       if (!forceRefresh) {
@@ -601,7 +1684,9 @@ export class AuthKitClient {
       }
 
       // Fetch from API
-      const response = await this.http.get<User>(ENDPOINTS.USERINFO);
+      const response = await this.withRetry("userinfo", async () =>
+        this.http.get<TUser>(await this.resolveEndpoint("USERINFO")),
+      );
       const user = response.data;
 
       // Cache user with timestamp
@@ -611,218 +1696,1024 @@ export class AuthKitClient {
         Date.now().toString(),
       );
 
-      return user;
+      return user;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update user profile
+   */
+  async updateProfile(data: UpdateProfileData): Promise<TUser> {
+    try {
+      const response = await this.http.patch<TUser>(
+        await this.resolveEndpoint("PROFILE"),
+        data,
+      );
+      const user = response.data;
+
+      // Update cache
+      await this.storage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+
+      this.emit(EVENTS.USER_UPDATED, user);
+      return user;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Register new user
+   */
+  async register(data: RegistrationData): Promise<RegistrationResponse> {
+    try {
+      // Validate data
+      if (!data.email || !data.password || !data.password_confirm) {
+        throw new ValidationError(
+          "Email, password, and password confirmation are required",
+        );
+      }
+
+      if (data.password !== data.password_confirm) {
+        throw new ValidationError("Passwords do not match", "password_confirm");
+      }
+
+      const response = await this.http.post<RegistrationResponse>(
+        await this.resolveEndpoint("REGISTER"),
+        data,
+      );
+
+      this.emit(EVENTS.USER_REGISTERED, response.data);
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Logout user
+   */
+  async logout(options: LogoutOptions = {}): Promise<LogoutResult> {
+    const { revokeAll = true, endSession = false } = options;
+    const result: LogoutResult = {
+      success: true,
+      revoked: [],
+      sessionEnded: false,
+      errors: [],
+    };
+
+    try {
+      const accessToken = await this.getAccessToken();
+      const refreshToken = revokeAll ? await this.getRefreshToken() : null;
+      const idToken = endSession ? await this.getIdToken() : null;
+
+      // Revoke tokens if possible. A 401 here must not trigger a refresh, so
+      // both revocations are sent together without the retry interceptor.
+      const revocations: Array<[TokenTypeHint, string]> = [];
+      if (refreshToken) {
+        revocations.push(["refresh_token", refreshToken]);
+      }
+      if (accessToken) {
+        revocations.push(["access_token", accessToken]);
+      }
+
+      const outcomes = await Promise.allSettled(
+        revocations.map(([hint, token]) =>
+          this.postRevocation(token, hint, false),
+        ),
+      );
+      outcomes.forEach((outcome, index) => {
+        const [hint] = revocations[index];
+        if (outcome.status === "fulfilled") {
+          result.revoked.push(hint);
+        } else {
+          this.log("Token revocation failed", outcome.reason);
+          result.errors.push({
+            step:
+              hint === "refresh_token"
+                ? "revoke_refresh_token"
+                : "revoke_access_token",
+            error: this.handleError(outcome.reason),
+          });
+        }
+      });
+
+      // Clear storage
+      this.cancelTokenRefresh();
+      this.tokenExchangeCache.clear();
+      this.resourceTokenCache.clear();
+      this.dpopNonces.clear();
+      await this.storage.clear();
+      await this.releaseDPoPKey();
+
+      // End the browser SSO session so the next login() asks again
+      if (endSession) {
+        try {
+          await this.endSession(idToken, options.postLogoutRedirectUri);
+          result.sessionEnded = true;
+        } catch (error) {
+          this.log("End session failed", error);
+          result.errors.push({
+            step: "end_session",
+            error: this.handleError(error),
+          });
+        }
+      }
+
+      result.success = result.errors.length === 0;
+      this.emit(EVENTS.USER_LOGGED_OUT, result);
+      return result;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * List the accounts signed in on this device
+   * Accounts without a stored session (e.g. after logout) are omitted
+   */
+  async listAccounts(): Promise<Account<TUser>[]> {
+    const { activeId, ids } = await this.storage.getRegistry();
+    const accounts: Account<TUser>[] = [];
+
+    for (const id of new Set([...ids, activeId])) {
+      const storage = this.storage.forAccount(id);
+      if (!(await this.hasStoredSession(storage))) {
+        continue;
+      }
+      const user = await storage.getItem(STORAGE_KEYS.USER);
+      accounts.push({
+        id,
+        user: user ? JSON.parse(user) : null,
+        isActive: id === activeId,
+      });
+    }
+
+    return accounts;
+  }
+
+  /**
+   * Sign in to another account without ending the current session
+   * Runs login() with `prompt=login` for a new account and makes it the
+   * active one. The previous account stays signed in and can be restored
+   * with switchAccount(). Signing in to a user that already has an account
+   * on the device replaces that account.
+   * @returns The added account
+   */
+  async addAccount(): Promise<Account<TUser>> {
+    const { activeId: previousId } = await this.storage.getRegistry();
+    const hasSession = await this.hasStoredSession(this.storage);
+    const id = hasSession ? createAccountId() : previousId;
+
+    if (id !== previousId) {
+      await this.activateAccount(id);
+    }
+
+    try {
+      // Don't let the browser's SSO session sign the current user back in
+      await this.runLogin({ prompt: "login" });
+      if (!(await this.hasStoredSession(this.storage))) {
+        throw new AuthenticationError("Login was not completed");
+      }
+    } catch (error) {
+      if (id !== previousId) {
+        await this.storage.clear();
+        await this.activateAccount(previousId);
+        await this.forgetAccount(id);
+      }
+      throw error;
+    }
+
+    const subject = await this.getAccountSubject(this.storage);
+    for (const account of await this.listAccounts()) {
+      if (
+        subject &&
+        account.id !== id &&
+        (await this.getAccountSubject(this.storage.forAccount(account.id))) ===
+          subject
+      ) {
+        await this.removeAccount(account.id);
+      }
+    }
+
+    if (id !== previousId) {
+      this.emit(EVENTS.ACCOUNT_SWITCHED, { accountId: id });
+    }
+    const user = await this.storage.getItem(STORAGE_KEYS.USER);
+    return { id, user: user ? JSON.parse(user) : null, isActive: true };
+  }
+
+  /**
+   * Make another signed-in account the active one
+   * @param id - Account ID from listAccounts()
+   * @throws ValidationError if the account is unknown or signed out
+   */
+  async switchAccount(id: string): Promise<Account<TUser>> {
+    const account = (await this.listAccounts()).find(
+      (candidate) => candidate.id === id,
+    );
+    if (!account) {
+      throw new ValidationError(`Unknown account: ${id}`, "id");
+    }
+
+    if (!account.isActive) {
+      await this.activateAccount(id);
+      this.emit(EVENTS.ACCOUNT_SWITCHED, { accountId: id });
+    }
+    return { ...account, isActive: true };
+  }
+
+  /**
+   * Sign out of an account and forget it
+   * Removing the active account logs it out and switches to the next
+   * remaining account, if any. Other accounts have their tokens revoked and
+   * their storage cleared without affecting the active session.
+   * @param id - Account ID from listAccounts()
+   * @param options - Logout options for the active account
+   */
+  async removeAccount(id: string, options: LogoutOptions = {}): Promise<void> {
+    const { activeId } = await this.storage.getRegistry();
+
+    if (id === activeId) {
+      await this.logout(options);
+      const [next] = await this.listAccounts();
+      if (next) {
+        await this.activateAccount(next.id);
+        this.emit(EVENTS.ACCOUNT_SWITCHED, { accountId: next.id });
+      }
+    } else {
+      const storage = this.storage.forAccount(id);
+      const revocations: Array<[TokenTypeHint, string | null]> = [
+        ["refresh_token", await storage.getItem(STORAGE_KEYS.REFRESH_TOKEN)],
+        ["access_token", await storage.getItem(STORAGE_KEYS.ACCESS_TOKEN)],
+      ];
+
+      // The interceptor would attach the active account's token, so these
+      // revocations are sent with client authentication only
+      await Promise.all(
+        revocations.map(async ([hint, token]) => {
+          if (!token) {
+            return;
+          }
+          await this.postRevocation(token, hint, false, false).catch((error) =>
+            this.log("Token revocation failed", error),
+          );
+        }),
+      );
+      await storage.clear();
+      await this.releaseDPoPKey();
+    }
+
+    await this.forgetAccount(id);
+  }
+
+  /**
+   * Point the client at another account's storage
+   */
+  private async activateAccount(id: string): Promise<void> {
+    // Let an in-flight refresh store its tokens in the previous account
+    if (this.refreshPromise) {
+      await this.refreshPromise.catch(() => undefined);
+    }
+    await this.refreshGrantQueue;
+
+    this.cancelTokenRefresh();
+    this.tokenExchangeCache.clear();
+    this.resourceTokenCache.clear();
+
+    const registry = await this.storage.getRegistry();
+    await this.storage.saveRegistry({
+      activeId: id,
+      ids: [...new Set([...registry.ids, registry.activeId, id])],
+    });
+  }
+
+  /**
+   * Drop an account from the registry (the active account is kept)
+   */
+  private async forgetAccount(id: string): Promise<void> {
+    const registry = await this.storage.getRegistry();
+    await this.storage.saveRegistry({
+      ...registry,
+      ids: registry.ids.filter(
+        (candidate) => candidate !== id || candidate === registry.activeId,
+      ),
+    });
+  }
+
+  /**
+   * Delete the DPoP key once no account has a session left
+   * Every account's tokens are bound to the same key.
+   */
+  private async releaseDPoPKey(): Promise<void> {
+    if (this.dpopKeys && (await this.listAccounts()).length === 0) {
+      await this.dpopKeys.deleteKey();
+    }
+  }
+
+  /**
+   * User an account is signed in as: the ID token's `sub`, or the `id` of
+   * the cached user
+   */
+  private async getAccountSubject(
+    storage: StorageAdapter,
+  ): Promise<string | null> {
+    const idToken = await storage.getItem(STORAGE_KEYS.ID_TOKEN);
+    const claims = idToken
+      ? decodeJwtClaimsUnsafe<IdTokenClaims>(idToken)
+      : null;
+    if (typeof claims?.sub === "string") {
+      return claims.sub;
+    }
+
+    const user = await storage.getItem(STORAGE_KEYS.USER);
+    const id = user ? (JSON.parse(user) as { id?: unknown }).id : undefined;
+    return typeof id === "string" || typeof id === "number" ? String(id) : null;
+  }
+
+  /**
+   * Whether a storage namespace holds an access or refresh token
+   */
+  private async hasStoredSession(storage: StorageAdapter): Promise<boolean> {
+    return Boolean(
+      (await storage.getItem(STORAGE_KEYS.ACCESS_TOKEN)) ||
+        (await storage.getItem(STORAGE_KEYS.REFRESH_TOKEN)),
+    );
+  }
+
+  /**
+   * Open the server's end-session endpoint (OIDC RP-initiated logout)
+   */
+  private async endSession(
+    idToken: string | null,
+    postLogoutRedirectUri: string = this.config.redirectUri,
+  ): Promise<void> {
+    const params: Record<string, string> = {
+      client_id: this.config.clientId,
+      post_logout_redirect_uri: postLogoutRedirectUri,
+    };
+    if (idToken) {
+      params.id_token_hint = idToken;
+    }
+
+    const endSessionUrl = buildAuthorizationUrl(
+      this.toAbsoluteUrl(await this.resolveEndpoint("END_SESSION")),
+      params,
+    );
+
+    this.log("Opening end session URL");
+
+    const result = await WebBrowser.openAuthSessionAsync(
+      endSessionUrl,
+      postLogoutRedirectUri,
+    );
+
+    if (result.type !== "success") {
+      throw new AuthenticationError(
+        `End session did not complete: ${result.type}`,
+      );
+    }
+  }
+
+  /**
+   * Login with social provider
+   */
+  async loginWithSocial(provider: SocialProvider): Promise<void> {
+    try {
+      const socialUrl = this.getSocialLoginUrl(provider);
+
+      this.log("Opening social login URL", socialUrl);
+
+      const result = await WebBrowser.openAuthSessionAsync(
+        socialUrl,
+        this.config.redirectUri,
+      );
+
+      if (result.type === "success") {
+        // After social login redirect, you'll need to handle the session
+        // This depends on your backend implementation
+        const user = await this.getCurrentUser();
+        this.emit(EVENTS.USER_LOGGED_IN, user);
+      } else if (result.type === "cancel") {
+        throw new AuthenticationError("Social login cancelled by user");
+      }
+    } catch (error) {
+      this.emit(EVENTS.AUTH_ERROR, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get social login URL without opening browser
+   * Useful for custom UI implementations
+   */
+  getSocialLoginUrl(provider: SocialProvider): string {
+    const buildPath =
+      this.config.endpoints.SOCIAL_LOGIN || ENDPOINTS.SOCIAL_LOGIN;
+    return this.toAbsoluteUrl(buildPath(provider));
+  }
+
+  /**
+   * Get OAuth authorization URL without opening browser
+   * Useful for custom authentication flows with custom WebViews. With `par`
+   * enabled the parameters are pushed first and the URL only carries
+   * `client_id` and `request_uri`.
+   */
+  async getAuthorizationUrl(): Promise<string> {
+    return this.buildAuthorizationRequest(this.getRequestedScopes());
+  }
+
+  /**
+   * Store state, PKCE and nonce for a new authorization request and build its URL
+   * @param scopes - Scopes to request
+   * @param extraParams - Additional authorization request parameters
+   */
+  private async buildAuthorizationRequest(
+    scopes: string[],
+    extraParams: Record<string, string> = {},
+  ): Promise<string> {
+    // Generate state for CSRF protection
+    const state = generateState();
+    await this.storage.setItem(STORAGE_KEYS.OAUTH_STATE, state);
+
+    // Generate PKCE parameters if enabled
+    let codeChallenge: string | undefined;
+    let codeChallengeMethod: string | undefined;
+
+    if (this.config.pkce) {
+      const pkceParams = await generatePKCEParams();
+      await this.storage.setItem(
+        STORAGE_KEYS.PKCE_VERIFIER,
+        pkceParams.codeVerifier,
+      );
+      codeChallenge = pkceParams.codeChallenge;
+      codeChallengeMethod = pkceParams.codeChallengeMethod;
+    }
+
+    // Build authorization URL
+    const params: Record<string, string | string[]> = {
+      client_id: this.config.clientId,
+      response_type: "code",
+      redirect_uri: this.config.redirectUri,
+      ...extraParams,
+      scope: scopes.join(" "),
+      state,
+    };
+
+    // Resource indicators (RFC 8707) the session's tokens may be minted for
+    if (this.config.resources.length > 0) {
+      params.resource = this.config.resources;
+    }
+
+    if (codeChallenge && codeChallengeMethod) {
+      params.code_challenge = codeChallenge;
+      params.code_challenge_method = codeChallengeMethod;
+    }
+
+    // Bind the ID token to this request (OIDC replay protection)
+    if (this.config.oidc) {
+      const nonce = generateNonce();
+      await this.storage.setItem(STORAGE_KEYS.OAUTH_NONCE, nonce);
+      params.nonce = nonce;
+    }
+
+    const authorizeUrl = this.toAbsoluteUrl(
+      await this.resolveEndpoint("AUTHORIZE"),
+    );
+
+    // Keep the parameters out of the browser URL (RFC 9126)
+    const parEndpoint = await this.getPushedAuthorizationEndpoint();
+    const pushed =
+      parEndpoint && (await this.pushAuthorizationRequest(parEndpoint, params));
+    if (pushed) {
+      return buildAuthorizationUrl(authorizeUrl, {
+        client_id: this.config.clientId,
+        request_uri: pushed.request_uri,
+      });
+    }
+
+    return buildAuthorizationUrl(authorizeUrl, params);
+  }
+
+  /**
+   * Pushed authorization request endpoint, or null when PAR is disabled or
+   * the discovery metadata doesn't advertise it
+   */
+  private async getPushedAuthorizationEndpoint(): Promise<string | null> {
+    if (!this.config.par) {
+      return null;
+    }
+
+    const metadata = await this.loadDiscovery();
+    if (this.config.endpoints.PAR) {
+      return this.config.endpoints.PAR;
+    }
+    if (this.config.discovery) {
+      const endpoint = metadata?.pushed_authorization_request_endpoint;
+      return typeof endpoint === "string" && endpoint ? endpoint : null;
+    }
+    return ENDPOINTS.PAR;
+  }
+
+  /**
+   * POST authorization request parameters to the PAR endpoint
+   * @param endpoint - Pushed authorization request endpoint
+   * @param params - Authorization request parameters
+   * @returns The `request_uri` to open the authorize URL with, or null when
+   * the server has no PAR endpoint and doesn't require one
+   */
+  private async pushAuthorizationRequest(
+    endpoint: string,
+    params: Record<string, string | string[]>,
+  ): Promise<PushedAuthorizationResponse | null> {
+    this.log("Pushing authorization request");
+    try {
+      return await this.postForm<PushedAuthorizationResponse>(endpoint, params);
+    } catch (error) {
+      if (
+        error instanceof NetworkError &&
+        (error.statusCode === 404 || error.statusCode === 405)
+      ) {
+        const metadata = await this.loadDiscovery();
+        if (!metadata?.require_pushed_authorization_requests) {
+          this.log("PAR endpoint not found, using a regular authorization URL");
+          return null;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange authorization code for tokens
+   * Use this for custom OAuth flows
+   */
+  async exchangeAuthorizationCode(
+    code: string,
+    codeVerifier?: string,
+  ): Promise<TokenResponse> {
+    try {
+      const body: Record<string, string> = {
+        grant_type: GRANT_TYPES.AUTHORIZATION_CODE,
+        code,
+        client_id: this.config.clientId,
+        redirect_uri: this.config.redirectUri,
+      };
+
+      // Add PKCE verifier
+      if (codeVerifier) {
+        body.code_verifier = codeVerifier;
+      } else if (this.config.pkce) {
+        const storedVerifier = await this.storage.getItem(
+          STORAGE_KEYS.PKCE_VERIFIER,
+        );
+        if (storedVerifier) {
+          body.code_verifier = storedVerifier;
+        }
+      }
+
+      this.log("Exchanging code for tokens");
+
+      const tokens = await this.postTokenRequest<TokenResponse>(body);
+      await this.verifyIdToken(tokens, true);
+      await this.storeTokens(tokens, this.getRequestedScopes());
+      await this.storage.removeItem(STORAGE_KEYS.OAUTH_NONCE);
+
+      return tokens;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get an app-level token via the client_credentials grant
+   * For service-to-service calls (internal tooling, kiosk builds). Requires a
+   * confidential client. Tokens are cached in memory per scope set and are
+   * never stored with, or swapped into, the user's session.
+   * @param scopes - Scopes to request
+   * @param forceRefresh - Skip the cache and request a new token
+   */
+  async getClientCredentialsToken(
+    scopes: TScope[] = [],
+    forceRefresh: boolean = false,
+  ): Promise<TokenMetadata> {
+    const cacheKey = [...scopes].sort().join(" ");
+
+    if (!forceRefresh) {
+      const cached = this.clientCredentialsCache.get(cacheKey);
+      if (cached) {
+        try {
+          const token = await cached;
+          if (!this.isTokenExpired(token.expiresAt)) {
+            return token;
+          }
+        } catch {
+          // Fall through and request a new token
+        }
+      }
+    }
+
+    const request = this.requestClientCredentialsToken(scopes);
+    this.clientCredentialsCache.set(cacheKey, request);
+
+    try {
+      return await request;
+    } catch (error) {
+      if (this.clientCredentialsCache.get(cacheKey) === request) {
+        this.clientCredentialsCache.delete(cacheKey);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run the client_credentials grant
+   */
+  private async requestClientCredentialsToken(
+    scopes: string[],
+  ): Promise<TokenMetadata> {
+    try {
+      if (!this.config.clientSecret) {
+        throw new ConfigurationError(
+          "clientSecret is required for the client_credentials grant",
+        );
+      }
+
+      const body: Record<string, string> = {
+        grant_type: GRANT_TYPES.CLIENT_CREDENTIALS,
+        client_id: this.config.clientId,
+      };
+
+      if (scopes.length > 0) {
+        body.scope = scopes.join(" ");
+      }
+
+      this.log("Requesting client credentials token", { scopes });
+
+      const tokens = await this.postTokenRequest<TokenResponse>(body);
+      return {
+        accessToken: tokens.access_token,
+        tokenType: tokens.token_type,
+        expiresAt: this.now() + tokens.expires_in * 1000,
+        scopes: tokens.scope ? parseScopes(tokens.scope) : scopes,
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Clear cached client credentials tokens
+   */
+  clearClientCredentialsCache(): void {
+    this.clientCredentialsCache.clear();
+  }
+
+  /**
+   * Exchange the user's token for one scoped to another service (RFC 8693)
+   * Exchanged tokens are cached in memory per audience, resource and scope
+   * until shortly before they expire, and are discarded on logout().
+   * @param options - Target audience/resource, scopes and token types
+   */
+  async exchangeToken(
+    options: TokenExchangeOptions<TScope> = {},
+  ): Promise<ExchangedToken> {
+    const cacheKey = JSON.stringify([
+      options.audience ?? null,
+      options.resource ?? null,
+      [...(options.scope ?? [])].sort(),
+      options.subjectTokenType ?? TOKEN_TYPES.ACCESS_TOKEN,
+      options.requestedTokenType ?? null,
+    ]);
+
+    if (!options.forceRefresh && !options.subjectToken) {
+      const cached = this.tokenExchangeCache.get(cacheKey);
+      if (cached) {
+        try {
+          const token = await cached;
+          if (!this.isTokenExpired(token.expiresAt)) {
+            return token;
+          }
+        } catch {
+          // Fall through and request a new token
+        }
+      }
+    }
+
+    const request = this.requestTokenExchange(options);
+    if (options.subjectToken) {
+      // Tokens for an explicit subject don't belong to the session cache
+      return request;
+    }
+    this.tokenExchangeCache.set(cacheKey, request);
+
+    try {
+      return await request;
     } catch (error) {
-      throw this.handleError(error);
+      if (this.tokenExchangeCache.get(cacheKey) === request) {
+        this.tokenExchangeCache.delete(cacheKey);
+      }
+      throw error;
     }
   }
 
   /**
-   * Update user profile
+   * Run the token-exchange grant
    */
-  async updateProfile(data: UpdateProfileData): Promise<User> {
+  private async requestTokenExchange(
+    options: TokenExchangeOptions<TScope>,
+  ): Promise<ExchangedToken> {
     try {
-      const response = await this.http.patch<User>(ENDPOINTS.PROFILE, data);
-      const user = response.data;
+      const subjectTokenType =
+        options.subjectTokenType ?? TOKEN_TYPES.ACCESS_TOKEN;
+      const subjectToken =
+        options.subjectToken ?? (await this.getSubjectToken(subjectTokenType));
 
-      // Update cache
-      await this.storage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+      const body: Record<string, string> = {
+        grant_type: GRANT_TYPES.TOKEN_EXCHANGE,
+        client_id: this.config.clientId,
+        subject_token: subjectToken,
+        subject_token_type: subjectTokenType,
+      };
+      if (options.audience) {
+        body.audience = options.audience;
+      }
+      if (options.resource) {
+        body.resource = options.resource;
+      }
+      if (options.scope && options.scope.length > 0) {
+        body.scope = options.scope.join(" ");
+      }
+      if (options.requestedTokenType) {
+        body.requested_token_type = options.requestedTokenType;
+      }
 
-      this.emit(EVENTS.USER_UPDATED, user);
-      return user;
+      this.log("Exchanging token", {
+        audience: options.audience,
+        resource: options.resource,
+      });
+
+      const tokens = await this.postTokenRequest<TokenExchangeResponse>(body);
+
+      // Without expires_in, assume the token lives as long as the subject token
+      const expiresAt =
+        tokens.expires_in !== undefined
+          ? this.now() + tokens.expires_in * 1000
+          : parseInt(
+              (await this.storage.getItem(STORAGE_KEYS.EXPIRES_AT)) || "0",
+              10,
+            );
+
+      return {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        tokenType: tokens.token_type,
+        issuedTokenType: tokens.issued_token_type,
+        expiresAt,
+        scopes: tokens.scope
+          ? parseScopes(tokens.scope)
+          : (options.scope ?? []),
+      };
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
   /**
-   * Register new user
+   * Load the stored token to use as a token exchange subject
    */
-  async register(data: RegistrationData): Promise<RegistrationResponse> {
-    try {
-      // Validate data
-      if (!data.email || !data.password || !data.password_confirm) {
-        throw new ValidationError(
-          "Email, password, and password confirmation are required",
-        );
-      }
-
-      if (data.password !== data.password_confirm) {
-        throw new ValidationError("Passwords do not match", "password_confirm");
-      }
-
-      const response = await this.http.post<RegistrationResponse>(
-        ENDPOINTS.REGISTER,
-        data,
-      );
+  private async getSubjectToken(subjectTokenType: string): Promise<string> {
+    let token: string | null = null;
+
+    if (subjectTokenType === TOKEN_TYPES.ID_TOKEN) {
+      token = await this.getIdToken();
+    } else if (subjectTokenType === TOKEN_TYPES.REFRESH_TOKEN) {
+      token = await this.getRefreshToken();
+    } else if (await this.isAuthenticated()) {
+      // Refreshes an expired access token first
+      token = await this.getAccessToken();
+    }
 
-      this.emit(EVENTS.USER_REGISTERED, response.data);
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
+    if (!token) {
+      throw new AuthenticationError("No token available to exchange");
     }
+    return token;
   }
 
   /**
-   * Logout user
+   * Clear cached token exchange results
+   */
+  clearTokenExchangeCache(): void {
+    this.tokenExchangeCache.clear();
+  }
+
+  /**
+   * Start a device authorization login (RFC 8628)
+   * For TVs and other devices that cannot open a browser: show the returned
+   * `user_code` and `verification_uri` (or a QR code of
+   * `verification_uri_complete`), then call pollDeviceLogin().
    */
-  async logout(): Promise<void> {
+  async startDeviceLogin(): Promise<DeviceLogin> {
     try {
-      // Revoke tokens if possible
-      const accessToken = await this.getAccessToken();
-      if (accessToken) {
-        try {
-          await this.http.post(
-            ENDPOINTS.REVOKE,
-            new URLSearchParams({ token: accessToken }).toString(),
-            {
-              headers: {
-                "Content-Type": "application/x-www-form-urlencoded",
-              },
-            },
-          );
-        } catch (error) {
-          this.log("Token revocation failed", error);
-        }
-      }
+      const body: Record<string, string> = {
+        client_id: this.config.clientId,
+        scope: this.getRequestedScopes().join(" "),
+      };
 
-      // Clear storage
-      await this.storage.clear();
+      this.log("Requesting device authorization");
+
+      const authorization = await this.postForm<DeviceAuthorizationResponse>(
+        await this.resolveEndpoint("DEVICE_AUTHORIZATION"),
+        body,
+      );
 
-      this.emit(EVENTS.USER_LOGGED_OUT, undefined);
+      return {
+        ...authorization,
+        expiresAt: Date.now() + authorization.expires_in * 1000,
+      };
     } catch (error) {
+      this.emit(EVENTS.AUTH_ERROR, error);
       throw this.handleError(error);
     }
   }
 
   /**
-   * Login with social provider
+   * Poll the token endpoint until the user approves a device login
+   * Honors `interval`, `slow_down` and the code expiry. On success the tokens
+   * are stored and `user_logged_in` is emitted.
+   * @param deviceLogin - Result of startDeviceLogin()
+   * @param options - Pass an AbortSignal to cancel polling
+   * @returns The logged-in user
+   * @throws AuthenticationError if the user denies the request, the code
+   * expires or polling is cancelled
    */
-  async loginWithSocial(provider: SocialProvider): Promise<void> {
+  async pollDeviceLogin(
+    deviceLogin: DeviceLogin,
+    options: DevicePollOptions = {},
+  ): Promise<TUser> {
+    const { signal } = options;
+    let interval = deviceLogin.interval ?? DEFAULTS.DEVICE_POLL_INTERVAL;
+
     try {
-      const socialUrl = this.getSocialLoginUrl(provider);
+      for (;;) {
+        await this.waitForNextPoll(interval * 1000, signal);
 
-      this.log("Opening social login URL", socialUrl);
+        if (Date.now() >= deviceLogin.expiresAt) {
+          throw new AuthenticationError("Device code expired", "expired_token");
+        }
 
-      const result = await WebBrowser.openAuthSessionAsync(
-        socialUrl,
-        this.config.redirectUri,
-      );
+        let tokens: TokenResponse;
+        try {
+          tokens = await this.requestDeviceToken(deviceLogin.device_code);
+        } catch (error) {
+          const code = this.getOAuthErrorCode(error);
+
+          if (code === "authorization_pending") {
+            continue;
+          }
+          if (code === "slow_down") {
+            interval += 5;
+            continue;
+          }
+          if (code === "access_denied") {
+            throw new AuthenticationError(
+              "Device login was denied",
+              "access_denied",
+            );
+          }
+          if (code === "expired_token") {
+            throw new AuthenticationError(
+              "Device code expired",
+              "expired_token",
+            );
+          }
+          throw error;
+        }
+
+        // No nonce is bound to a device login, so only the ID token's
+        // signature and standard claims are checked
+        await this.verifyIdToken(tokens, false);
+        await this.storeTokens(tokens, this.getRequestedScopes());
 
-      if (result.type === "success") {
-        // After social login redirect, you'll need to handle the session
-        // This depends on your backend implementation
         const user = await this.getCurrentUser();
         this.emit(EVENTS.USER_LOGGED_IN, user);
-      } else if (result.type === "cancel") {
-        throw new AuthenticationError("Social login cancelled by user");
+        return user;
       }
     } catch (error) {
-      this.emit(EVENTS.AUTH_ERROR, error);
+      // Cancelling (e.g. leaving the login screen) is not an auth failure
+      if (!(error instanceof AuthKitError && error.code === "cancelled")) {
+        this.emit(EVENTS.AUTH_ERROR, error);
+      }
       throw this.handleError(error);
     }
   }
 
   /**
-   * Get social login URL without opening browser
-   * Useful for custom UI implementations
+   * Exchange a device code for tokens (one poll)
    */
-  getSocialLoginUrl(provider: SocialProvider): string {
-    return `${this.config.authKitUrl}${ENDPOINTS.SOCIAL_LOGIN(provider)}`;
+  private async requestDeviceToken(deviceCode: string): Promise<TokenResponse> {
+    const body: Record<string, string> = {
+      grant_type: GRANT_TYPES.DEVICE_CODE,
+      device_code: deviceCode,
+      client_id: this.config.clientId,
+    };
+
+    return this.postTokenRequest<TokenResponse>(body);
   }
 
   /**
-   * Get OAuth authorization URL without opening browser
-   * Useful for custom authentication flows with custom WebViews
+   * Extract the OAuth `error` code from a failed token endpoint request
    */
-  async getAuthorizationUrl(): Promise<string> {
-    // Generate state for CSRF protection
-    const state = generateState();
-    await this.storage.setItem(STORAGE_KEYS.OAUTH_STATE, state);
+  private getOAuthErrorCode(error: unknown): string | undefined {
+    if (error instanceof NetworkError) {
+      return (error.details as { error?: string } | undefined)?.error;
+    }
+    if (error instanceof AuthKitError) {
+      return error.code;
+    }
+    return undefined;
+  }
 
-    // Generate PKCE parameters if enabled
-    let codeChallenge: string | undefined;
-    let codeChallengeMethod: string | undefined;
+  /**
+   * Wait before the next device poll, rejecting early if the signal aborts
+   */
+  private waitForNextPoll(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cancelled = () =>
+        new AuthenticationError("Device login cancelled", "cancelled");
+
+      if (signal?.aborted) {
+        reject(cancelled());
+        return;
+      }
 
-    if (this.config.pkce) {
-      const pkceParams = await generatePKCEParams();
-      await this.storage.setItem(
-        STORAGE_KEYS.PKCE_VERIFIER,
-        pkceParams.codeVerifier,
-      );
-      codeChallenge = pkceParams.codeChallenge;
-      codeChallengeMethod = pkceParams.codeChallengeMethod;
-    }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelled());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, delay);
 
-    // Build authorization URL
-    const params: Record<string, string> = {
-      client_id: this.config.clientId,
-      response_type: "code",
-      redirect_uri: this.config.redirectUri,
-      scope: this.config.scopes.join(" "),
-      state,
-    };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
 
-    if (codeChallenge && codeChallengeMethod) {
-      params.code_challenge = codeChallenge;
-      params.code_challenge_method = codeChallengeMethod;
-    }
+  /**
+   * Approve another device's login (e.g. a TV showing a user code)
+   * Sent with the current user's access token.
+   * @param userCode - Code shown on the other device
+   */
+  async approveDeviceCode(userCode: string): Promise<void> {
+    await this.submitDeviceDecision(userCode, "approve");
+  }
 
-    return buildAuthorizationUrl(
-      `${this.config.authKitUrl}${ENDPOINTS.AUTHORIZE}`,
-      params,
-    );
+  /**
+   * Deny another device's login
+   * @param userCode - Code shown on the other device
+   */
+  async denyDeviceCode(userCode: string): Promise<void> {
+    await this.submitDeviceDecision(userCode, "deny");
   }
 
   /**
-   * Exchange authorization code for tokens
-   * Use this for custom OAuth flows
+   * Parse a scanned `verification_uri_complete` link
+   * Only links to this client's auth server (authKitUrl or issuer) are accepted.
+   * @param url - Scanned or deep-linked URL
+   * @throws DeepLinkError if the link is invalid or from another origin
    */
-  async exchangeAuthorizationCode(
-    code: string,
-    codeVerifier?: string,
-  ): Promise<TokenResponse> {
-    try {
-      const body: Record<string, string> = {
-        grant_type: GRANT_TYPES.AUTHORIZATION_CODE,
-        code,
-        client_id: this.config.clientId,
-        redirect_uri: this.config.redirectUri,
-      };
+  parseDeviceVerificationLink(url: string): DeviceVerificationLink {
+    return parseDeviceVerificationUrl(url, [
+      this.config.authKitUrl,
+      this.config.issuer,
+    ]);
+  }
 
-      // Add client secret if provided
-      if (this.config.clientSecret) {
-        body.client_secret = this.config.clientSecret;
+  /**
+   * Post an approve/deny decision for a device user code
+   */
+  private async submitDeviceDecision(
+    userCode: string,
+    action: "approve" | "deny",
+  ): Promise<void> {
+    try {
+      const code = userCode.trim();
+      if (!code) {
+        throw new ValidationError("User code is required", "user_code");
       }
 
-      // Add PKCE verifier
-      if (codeVerifier) {
-        body.code_verifier = codeVerifier;
-      } else if (this.config.pkce) {
-        const storedVerifier = await this.storage.getItem(
-          STORAGE_KEYS.PKCE_VERIFIER,
-        );
-        if (storedVerifier) {
-          body.code_verifier = storedVerifier;
-        }
+      if (!(await this.getAccessToken())) {
+        throw new AuthenticationError("Not authenticated");
       }
 
-      this.log("Exchanging code for tokens");
-
-      const response = await this.http.post<TokenResponse>(
-        ENDPOINTS.TOKEN,
-        new URLSearchParams(body).toString(),
-        {
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-        },
-      );
-
-      const tokens = response.data;
-      await this.storeTokens(tokens);
+      this.log("Submitting device code decision", { action });
 
-      return tokens;
+      await this.http.post(await this.resolveEndpoint("DEVICE_VERIFICATION"), {
+        user_code: code,
+        action,
+      });
     } catch (error) {
       throw this.handleError(error);
     }
@@ -848,9 +2739,11 @@ export class AuthKitClient {
       const tokenType =
         (await this.storage.getItem(STORAGE_KEYS.TOKEN_TYPE)) || "Bearer";
       const refreshToken = (await this.getRefreshToken()) || undefined;
+      await this.loadClockOffset();
       const expiresAtStr = await this.storage.getItem(STORAGE_KEYS.EXPIRES_AT);
       const expiresAt = expiresAtStr ? parseInt(expiresAtStr, 10) : 0;
-      const scopes = this.config.scopes;
+      const scopes =
+        (await this.getGrantedScopes()) ?? this.getRequestedScopes();
 
       return {
         accessToken,
@@ -867,18 +2760,14 @@ export class AuthKitClient {
   /**
    * Revoke a specific token
    * @param token - The token to revoke (access or refresh token)
+   * @param tokenTypeHint - Hint about the type of the token
    */
-  async revokeToken(token: string): Promise<void> {
+  async revokeToken(
+    token: string,
+    tokenTypeHint?: TokenTypeHint,
+  ): Promise<void> {
     try {
-      await this.http.post(
-        ENDPOINTS.REVOKE,
-        new URLSearchParams({ token }).toString(),
-        {
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-        },
-      );
+      await this.postRevocation(token, tokenTypeHint, true);
       this.log("Token revoked successfully");
     } catch (error) {
       throw this.handleError(error);
@@ -886,11 +2775,219 @@ export class AuthKitClient {
   }
 
   /**
-   * Clear all authentication data from storage
+   * Send a revocation request (RFC 7009)
+   * @param retryOnUnauthorized - Whether a 401 may trigger a token refresh
+   */
+  private async postRevocation(
+    token: string,
+    tokenTypeHint: TokenTypeHint | undefined,
+    retryOnUnauthorized: boolean,
+    withAuth: boolean = true,
+  ): Promise<void> {
+    const body: Record<string, string> = {
+      token,
+      client_id: this.config.clientId,
+    };
+
+    if (tokenTypeHint) {
+      body.token_type_hint = tokenTypeHint;
+    }
+
+    await this.withRetry("revoke", async () =>
+      this.postForm(await this.resolveEndpoint("REVOKE"), body, {
+        _retry: !retryOnUnauthorized,
+        withAuth,
+      }),
+    );
+  }
+
+  /**
+   * Introspect a token on the server (RFC 7662)
+   * Use this to check whether a session was revoked before a sensitive action
+   * @param token - The token to introspect (defaults to the current access token)
+   * @param tokenTypeHint - Hint about the type of the token
+   */
+  async introspectToken(
+    token?: string,
+    tokenTypeHint: TokenTypeHint = "access_token",
+  ): Promise<IntrospectionResponse> {
+    try {
+      const subject = token || (await this.getAccessToken());
+      if (!subject) {
+        throw new TokenError("No token available to introspect");
+      }
+
+      const body: Record<string, string> = {
+        token: subject,
+        token_type_hint: tokenTypeHint,
+        client_id: this.config.clientId,
+      };
+
+      const introspection = await this.postForm<IntrospectionResponse>(
+        await this.resolveEndpoint("INTROSPECT"),
+        body,
+      );
+
+      this.log("Token introspected", { active: introspection.active });
+      return introspection;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Check whether a URL points at one of the allowed resource servers
+   */
+  private isResourceServerUrl(
+    url: string | undefined,
+    hosts: string[] = [
+      ...this.config.resourceServers,
+      ...this.config.resources,
+    ],
+  ): boolean {
+    return !!url && isAllowedOrigin(url, hosts);
+  }
+
+  /**
+   * Make an authenticated request to one of your own API servers
+   * The access token is only attached for origins listed in `resourceServers`
+   * or `resources`; URLs under a configured resource get that resource's token
+   * @param url - Absolute URL of the resource
+   * @param options - Request options
+   */
+  async request<T = unknown>(
+    url: string,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const withAuth = options.withAuth !== false;
+
+    if (withAuth && !this.isResourceServerUrl(url)) {
+      throw new ValidationError(
+        `URL origin is not in resourceServers or resources, refusing to send the access token: ${url}`,
+        "url",
+      );
+    }
+
+    try {
+      const response = await this.api.request<T>({
+        url,
+        method: options.method || "GET",
+        headers: options.headers,
+        params: options.params,
+        data: options.body,
+        withAuth,
+      } as AuthRequestConfig);
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * fetch() wrapper that attaches the access token for `resourceServers`
+   * origins and retries once with a refreshed token on 401.
+   * Requests to any other origin are sent without the token.
+   * @param url - Absolute URL of the resource
+   * @param init - Standard fetch options
+   * @param options - Origins allowed to receive the token (defaults to `resourceServers`)
+   */
+  async fetch(
+    url: string,
+    init: RequestInit = {},
+    options: AuthHttpOptions = {},
+  ): Promise<Response> {
+    const withAuth = this.isResourceServerUrl(url, options.hosts);
+
+    // fetch rejects with a TypeError when the request can't be sent at all
+    const sendRequest = async (requestInit: RequestInit) => {
+      try {
+        return await fetch(url, requestInit);
+      } catch (error) {
+        if (error instanceof TypeError) {
+          this.emit(EVENTS.NETWORK_ERROR, { error });
+          throw new NetworkError("Network request failed", undefined, error);
+        }
+        throw error;
+      }
+    };
+
+    const send = async (): Promise<[Response, string | null]> => {
+      if (!withAuth) {
+        return [await sendRequest(init), null];
+      }
+
+      // Hold requests issued during a refresh until the new token is stored
+      if (this.refreshPromise) {
+        await this.refreshPromise.catch(() => undefined);
+      }
+
+      const token = await this.getAccessTokenForUrl(url);
+      const headers = new Headers(init.headers);
+      if (token) {
+        headers.set("Authorization", await this.formatAuthorization(token));
+        if (this.dpopKeys) {
+          headers.set(
+            "DPoP",
+            await this.createDPoPHeader(init.method || "GET", url, token),
+          );
+        }
+      }
+      const response = await sendRequest({ ...init, headers });
+      this.storeDPoPNonce(url, response.headers.get("DPoP-Nonce"));
+      return [response, token];
+    };
+
+    try {
+      let [response, sentWith] = await send();
+
+      // Replay once with the nonce the server asked for (RFC 9449, section 8)
+      if (
+        this.dpopKeys &&
+        sentWith &&
+        response.status === 401 &&
+        response.headers.get("DPoP-Nonce") &&
+        this.isDPoPNonceChallenge(
+          null,
+          response.headers.get("WWW-Authenticate"),
+        )
+      ) {
+        [response, sentWith] = await send();
+      }
+
+      if (response.status !== 401 || !sentWith) {
+        return response;
+      }
+
+      const resource = this.matchResource(url);
+      if (resource) {
+        // Mint a new token for the resource on the retry
+        this.resourceTokenCache.delete(resource);
+      } else {
+        // Skip the refresh when another caller already rotated the token
+        const current = await this.getAccessToken();
+        if (!current || current === sentWith) {
+          await this.refreshAccessToken();
+        }
+      }
+
+      const [retried] = await send();
+      return retried;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Clear the active account's authentication data from storage
    * Does not revoke tokens on the server
    */
   async clearStorage(): Promise<void> {
+    this.cancelTokenRefresh();
+    this.tokenExchangeCache.clear();
+    this.resourceTokenCache.clear();
+    this.dpopNonces.clear();
     await this.storage.clear();
+    await this.releaseDPoPKey();
     this.log("Storage cleared");
   }
 }
@@ -0,0 +1,34 @@
+import React, { ReactNode } from "react";
+import { useAuthState } from "../hooks/useAuthState";
+
+interface RequireAuthProps {
+  children: ReactNode;
+  /** Rendered when the user is not authenticated */
+  fallback?: ReactNode;
+  /** Rendered while the auth state is loading (defaults to nothing) */
+  loading?: ReactNode;
+}
+
+/**
+ * RequireAuth component - renders children only for authenticated users
+ *
+ * @example
+ * ```tsx
+ * <RequireAuth fallback={<LoginScreen />} loading={<SplashScreen />}>
+ *   <HomeScreen />
+ * </RequireAuth>
+ * ```
+ */
+export function RequireAuth({
+  children,
+  fallback = null,
+  loading = null,
+}: RequireAuthProps) {
+  const { isAuthenticated, isLoading } = useAuthState();
+
+  if (isLoading) {
+    return <>{loading}</>;
+  }
+
+  return <>{isAuthenticated ? children : fallback}</>;
+}
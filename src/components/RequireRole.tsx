@@ -0,0 +1,37 @@
+import React, { ReactNode } from "react";
+import { useHasRole } from "../hooks/useHasRole";
+import { MatchMode } from "../types";
+
+interface RequireRoleProps {
+  children: ReactNode;
+  /** Role or roles the user must have */
+  roles: string | string[];
+  /** Match mode (default: "all") */
+  mode?: MatchMode;
+  /** Claim path holding the roles (defaults to the `rolesClaim` config option) */
+  claimPath?: string;
+  /** Rendered when the roles are missing */
+  fallback?: ReactNode;
+}
+
+/**
+ * RequireRole component - renders children only if the user has the required
+ * roles. Roles come from unverified token claims: use this for UI only.
+ *
+ * @example
+ * ```tsx
+ * <RequireRole roles={["admin", "support"]} mode="any">
+ *   <AdminPanel />
+ * </RequireRole>
+ * ```
+ */
+export function RequireRole({
+  children,
+  roles,
+  mode,
+  claimPath,
+  fallback = null,
+}: RequireRoleProps) {
+  const allowed = useHasRole(roles, { mode, claimPath });
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,34 @@
+import React, { ReactNode } from "react";
+import { useHasScope } from "../hooks/useHasScope";
+import { MatchMode, Scope } from "../types";
+
+interface RequireScopeProps<TScope extends string> {
+  children: ReactNode;
+  /** Scope or scopes the access token must have */
+  scopes: TScope | TScope[];
+  /** Match mode (default: "all") */
+  mode?: MatchMode;
+  /** Rendered when the scopes are missing */
+  fallback?: ReactNode;
+}
+
+/**
+ * RequireScope component - renders children only if the access token has the
+ * required scopes
+ *
+ * @example
+ * ```tsx
+ * <RequireScope scopes="payments:write" fallback={<UpgradePrompt />}>
+ *   <PayButton />
+ * </RequireScope>
+ * ```
+ */
+export function RequireScope<TScope extends string = Scope>({
+  children,
+  scopes,
+  mode,
+  fallback = null,
+}: RequireScopeProps<TScope>) {
+  const allowed = useHasScope<TScope>(scopes, { mode });
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,3 @@
+export { RequireAuth } from "./RequireAuth";
+export { RequireScope } from "./RequireScope";
+export { RequireRole } from "./RequireRole";
@@ -2,6 +2,8 @@ import React, {
   createContext,
   useContext,
   useEffect,
+  useMemo,
+  useRef,
   useState,
   useCallback,
   ReactNode,
@@ -15,54 +17,193 @@ import {
   RegistrationData,
   UpdateProfileData,
   SocialProvider,
+  LogoutOptions,
+  LogoutResult,
+  Scope,
 } from "../types";
-import { EVENTS } from "../utils/constants";
+import { ConfigurationError } from "../errors";
+import { getClientNamespace } from "../storage/NamespacedStorage";
+import { EVENTS, DEFAULTS } from "../utils/constants";
 
-interface AuthContextValue extends AuthState {
+interface AuthContextValue<TScope extends string = Scope, TUser = User>
+  extends AuthState<TUser> {
   login: () => Promise<void>;
-  logout: () => Promise<void>;
+  logout: (options?: LogoutOptions) => Promise<LogoutResult>;
   register: (data: RegistrationData) => Promise<void>;
-  updateProfile: (data: UpdateProfileData) => Promise<User>;
+  updateProfile: (data: UpdateProfileData) => Promise<TUser>;
   refreshToken: () => Promise<TokenResponse>;
   loginWithSocial: (provider: SocialProvider) => Promise<void>;
-  client: AuthKitClient;
+  /** Claim path holding the user's roles */
+  rolesClaim: string;
+  /** Active environment, or null when the provider has a single config */
+  environment: string | null;
+  /** Names of the configured environments */
+  environments: string[];
+  /** Replace the client with one for another environment */
+  switchEnvironment: (name: string) => void;
+  client: AuthKitClient<TScope, TUser>;
 }
 
-const AuthContext = createContext<AuthContextValue | null>(null);
+// Stored untyped; useAuthContext() narrows it to the caller's type parameters
+const AuthContext = createContext<AuthContextValue<string, unknown> | null>(
+  null,
+);
 
-interface AuthProviderProps {
+// Named providers above the current one, by name
+const NamedAuthContexts = createContext<
+  ReadonlyMap<string, AuthContextValue<string, unknown>>
+>(new Map());
+
+interface AuthProviderProps<TScope extends string> {
   children: ReactNode;
-  config: AuthKitConfig;
+  /** Client configuration; omit it to re-provide a named ancestor */
+  config?: AuthKitConfig<TScope>;
+  /**
+   * Configurations by environment name (e.g. dev, staging, prod), used
+   * instead of `config` to switch environments at runtime
+   */
+  environments?: Record<string, AuthKitConfig<TScope>>;
+  /** Initial environment (defaults to the first one in `environments`) */
+  environment?: string;
+  /** Name under which nested components can address this client */
+  name?: string;
 }
 
 /**
  * AuthProvider component - wraps your app to provide authentication context
+ * Pass your own scope and user types to type the client and hooks, e.g.
+ * `<AuthProvider<MyScope, MyUser> config={config}>`
+ *
+ * Give a provider a `name` to address it from nested providers: a nested
+ * `<AuthProvider name="...">` without `config` makes that client the
+ * current one again for its children.
+ *
+ * Pass `environments` instead of `config` to switch servers at runtime with
+ * `switchEnvironment(name)`; each environment keeps its own storage.
+ */
+export function AuthProvider<TScope extends string = Scope, TUser = User>(
+  props: AuthProviderProps<TScope>,
+) {
+  if (!props.config && !props.environments) {
+    if (!props.name) {
+      throw new Error("AuthProvider needs a config or the name of a client");
+    }
+    return (
+      <NamedAuthProvider name={props.name}>{props.children}</NamedAuthProvider>
+    );
+  }
+  return <ClientAuthProvider<TScope, TUser> {...props} />;
+}
+
+const INITIAL_STATE: AuthState<never> = {
+  isAuthenticated: false,
+  user: null,
+  isLoading: true,
+  error: null,
+  tokens: null,
+  idTokenClaims: null,
+  accessTokenClaims: null,
+};
+
+/**
+ * Configuration of an environment, with storage scoped to it so sessions
+ * from different environments never mix
+ */
+function getEnvironmentConfig<TScope extends string>(
+  environments: Record<string, AuthKitConfig<TScope>>,
+  environment: string,
+): AuthKitConfig<TScope> {
+  const config = environments[environment];
+  if (!config) {
+    throw new ConfigurationError(`Unknown environment: ${environment}`);
+  }
+  return {
+    ...config,
+    instanceId:
+      config.instanceId ||
+      `${getClientNamespace(config.authKitUrl, config.clientId)}-${environment}`,
+  };
+}
+
+/**
+ * Re-provide the context of a named ancestor AuthProvider
+ */
+function NamedAuthProvider({
+  children,
+  name,
+}: {
+  children: ReactNode;
+  name: string;
+}) {
+  const value = useContext(NamedAuthContexts).get(name);
+  if (!value) {
+    throw new Error(`No AuthProvider named "${name}" above this one`);
+  }
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+/**
+ * AuthProvider that owns an AuthKitClient
  */
-export function AuthProvider({ children, config }: AuthProviderProps) {
-  const [client] = useState(() => new AuthKitClient(config));
-  const [state, setState] = useState<AuthState>({
-    isAuthenticated: false,
-    user: null,
-    isLoading: true,
-    error: null,
-    tokens: null,
+function ClientAuthProvider<TScope extends string, TUser>({
+  children,
+  config: singleConfig,
+  environments,
+  environment: initialEnvironment,
+  name,
+}: AuthProviderProps<TScope>) {
+  const [active, setActive] = useState(() => {
+    const environment = environments
+      ? (initialEnvironment ?? Object.keys(environments)[0])
+      : null;
+    const config = environments
+      ? getEnvironmentConfig(environments, environment as string)
+      : (singleConfig as AuthKitConfig<TScope>);
+    return {
+      environment,
+      config,
+      client: new AuthKitClient<TScope, TUser>(config),
+    };
   });
+  const { client, config, environment } = active;
 
-  // Initialize auth state on mount
-  useEffect(() => {
-    initializeAuth();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  // Lets async work of a replaced client skip its state updates
+  const clientRef = useRef(client);
+  clientRef.current = client;
+  const [state, setState] = useState<AuthState<TUser>>(INITIAL_STATE);
 
   // Setup event listeners
   useEffect(() => {
-    const handleUserLoggedIn = (user: User) => {
+    const syncIdTokenClaims = () => {
+      client
+        .getIdTokenClaims()
+        .then((idTokenClaims) =>
+          setState((prev) => ({ ...prev, idTokenClaims })),
+        )
+        .catch(() => {
+          // Claims are optional - keep the previous value
+        });
+    };
+
+    const syncTokens = () => {
+      Promise.all([client.getTokens(), client.getAccessTokenClaims()])
+        .then(([tokens, accessTokenClaims]) =>
+          setState((prev) => ({ ...prev, tokens, accessTokenClaims })),
+        )
+        .catch(() => {
+          // Keep the previous token metadata
+        });
+    };
+
+    const handleUserLoggedIn = (user: TUser) => {
       setState((prev) => ({
         ...prev,
         isAuthenticated: true,
         user,
         error: null,
       }));
+      syncTokens();
+      syncIdTokenClaims();
     };
 
     const handleUserLoggedOut = () => {
@@ -72,10 +213,12 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
         isLoading: false,
         error: null,
         tokens: null,
+        idTokenClaims: null,
+        accessTokenClaims: null,
       });
     };
 
-    const handleUserUpdated = (user: User) => {
+    const handleUserUpdated = (user: TUser) => {
       setState((prev) => ({
         ...prev,
         user,
@@ -91,16 +234,16 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
     };
 
     const handleTokenRefreshed = (tokens: TokenResponse) => {
-      setState((prev) => ({
-        ...prev,
-        tokens: {
-          accessToken: tokens.access_token,
-          refreshToken: tokens.refresh_token,
-          tokenType: tokens.token_type,
-          expiresAt: Date.now() + tokens.expires_in * 1000,
-          scopes: tokens.scope.split(" "),
-        },
-      }));
+      // The response may omit `scope`, so read back what the client stored
+      syncTokens();
+      if (tokens.id_token) {
+        syncIdTokenClaims();
+      }
+    };
+
+    const handleScopesGranted = () => {
+      // A new access token was issued along with the scopes
+      syncTokens();
     };
 
     const handleTokenExpired = () => {
@@ -110,6 +253,8 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
         isLoading: false,
         error: new Error("Session expired"),
         tokens: null,
+        idTokenClaims: null,
+        accessTokenClaims: null,
       });
     };
 
@@ -119,6 +264,7 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
     client.on(EVENTS.USER_UPDATED, handleUserUpdated);
     client.on(EVENTS.AUTH_ERROR, handleAuthError);
     client.on(EVENTS.TOKEN_REFRESHED, handleTokenRefreshed);
+    client.on(EVENTS.SCOPES_GRANTED, handleScopesGranted);
     client.on(EVENTS.TOKEN_EXPIRED, handleTokenExpired);
 
     // Cleanup
@@ -128,6 +274,7 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
       client.off(EVENTS.USER_UPDATED, handleUserUpdated);
       client.off(EVENTS.AUTH_ERROR, handleAuthError);
       client.off(EVENTS.TOKEN_REFRESHED, handleTokenRefreshed);
+      client.off(EVENTS.SCOPES_GRANTED, handleScopesGranted);
       client.off(EVENTS.TOKEN_EXPIRED, handleTokenExpired);
     };
   }, [client]);
@@ -136,6 +283,8 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
    * Initialize authentication state
    */
   const initializeAuth = useCallback(async () => {
+    let next: AuthState<TUser>;
+
     try {
       setState((prev) => ({ ...prev, isLoading: true }));
 
@@ -143,33 +292,89 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
 
       if (isAuthenticated) {
         const user = await client.getCurrentUser();
-        setState({
+        const tokens = await client.getTokens();
+        const idTokenClaims = await client.getIdTokenClaims();
+        const accessTokenClaims = await client.getAccessTokenClaims();
+        next = {
           isAuthenticated: true,
           user,
           isLoading: false,
           error: null,
-          tokens: null,
-        });
+          tokens,
+          idTokenClaims,
+          accessTokenClaims,
+        };
       } else {
-        setState({
+        next = {
           isAuthenticated: false,
           user: null,
           isLoading: false,
           error: null,
           tokens: null,
-        });
+          idTokenClaims: null,
+          accessTokenClaims: null,
+        };
       }
     } catch (error) {
-      setState({
+      next = {
         isAuthenticated: false,
         user: null,
         isLoading: false,
         error: error as Error,
         tokens: null,
-      });
+        idTokenClaims: null,
+        accessTokenClaims: null,
+      };
+    }
+
+    // The environment was switched while loading
+    if (clientRef.current === client) {
+      setState(next);
     }
   }, [client]);
 
+  // Initialize auth state on mount and for every new client
+  useEffect(() => {
+    initializeAuth();
+  }, [initializeAuth]);
+
+  // Stop the client's background work when it is replaced or unmounted
+  useEffect(() => {
+    return () => client.dispose();
+  }, [client]);
+
+  /**
+   * Replace the client with one for another environment
+   */
+  const switchEnvironment = useCallback(
+    (next: string) => {
+      if (!environments) {
+        throw new ConfigurationError(
+          "switchEnvironment requires the environments prop",
+        );
+      }
+      if (next === environment) {
+        return;
+      }
+      const nextConfig = getEnvironmentConfig(environments, next);
+      setState(INITIAL_STATE);
+      setActive({
+        environment: next,
+        config: nextConfig,
+        client: new AuthKitClient<TScope, TUser>(nextConfig),
+      });
+    },
+    [environments, environment],
+  );
+
+  // Follow the active account when the client switches accounts
+  useEffect(() => {
+    client.on(EVENTS.ACCOUNT_SWITCHED, initializeAuth);
+    return () => {
+      client.off(EVENTS.ACCOUNT_SWITCHED, initializeAuth);
+    };
+  }, [client, initializeAuth]);
+
   /**
    * Login user
    */
@@ -190,19 +395,22 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
   /**
    * Logout user
    */
-  const logout = useCallback(async () => {
-    try {
-      setState((prev) => ({ ...prev, isLoading: true }));
-      await client.logout();
-    } catch (error) {
-      setState((prev) => ({
-        ...prev,
-        isLoading: false,
-        error: error as Error,
-      }));
-      throw error;
-    }
-  }, [client]);
+  const logout = useCallback(
+    async (options?: LogoutOptions) => {
+      try {
+        setState((prev) => ({ ...prev, isLoading: true }));
+        return await client.logout(options);
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: error as Error,
+        }));
+        throw error;
+      }
+    },
+    [client],
+  );
 
   /**
    * Register new user
@@ -230,7 +438,7 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
    * Update user profile
    */
   const updateProfile = useCallback(
-    async (data: UpdateProfileData): Promise<User> => {
+    async (data: UpdateProfileData): Promise<TUser> => {
       try {
         setState((prev) => ({ ...prev, isLoading: true, error: null }));
         const user = await client.updateProfile(data);
@@ -287,7 +495,7 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
     [client],
   );
 
-  const value: AuthContextValue = {
+  const value: AuthContextValue<TScope, TUser> = {
     ...state,
     login,
     logout,
@@ -295,20 +503,48 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
     updateProfile,
     refreshToken,
     loginWithSocial,
+    rolesClaim: config.rolesClaim || DEFAULTS.ROLES_CLAIM,
+    environment,
+    environments: environments ? Object.keys(environments) : [],
+    switchEnvironment,
     client,
   };
+  const contextValue = value as unknown as AuthContextValue<string, unknown>;
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  const parentContexts = useContext(NamedAuthContexts);
+  const namedContexts = useMemo(
+    () =>
+      name ? new Map(parentContexts).set(name, contextValue) : parentContexts,
+    [parentContexts, name, contextValue],
+  );
+
+  return (
+    <NamedAuthContexts.Provider value={namedContexts}>
+      <AuthContext.Provider value={contextValue}>
+        {children}
+      </AuthContext.Provider>
+    </NamedAuthContexts.Provider>
+  );
 }
 
 /**
  * useAuthContext hook - access auth context
+ * Type parameters must match the ones used for AuthProvider
+ * @param name - Name of an ancestor AuthProvider (defaults to the nearest one)
  * @throws Error if used outside AuthProvider
  */
-export function useAuthContext(): AuthContextValue {
-  const context = useContext(AuthContext);
+export function useAuthContext<TScope extends string = Scope, TUser = User>(
+  name?: string,
+): AuthContextValue<TScope, TUser> {
+  const nearest = useContext(AuthContext);
+  const named = useContext(NamedAuthContexts);
+  const context = name ? named.get(name) : nearest;
   if (!context) {
-    throw new Error("useAuthContext must be used within an AuthProvider");
+    throw new Error(
+      name
+        ? `No AuthProvider named "${name}" above this component`
+        : "useAuthContext must be used within an AuthProvider",
+    );
   }
-  return context;
+  return context as unknown as AuthContextValue<TScope, TUser>;
 }
@@ -9,3 +9,11 @@ export { useAuthActions } from "./useAuthActions";
 export { useAuthState } from "./useAuthState";
 export { useTokenManager } from "./useTokenManager";
 export { useAuthClient } from "./useAuthClient";
+export { useAuthenticatedRequest } from "./useAuthenticatedRequest";
+export { useClaims } from "./useClaims";
+export { useHasScope } from "./useHasScope";
+export { useHasRole } from "./useHasRole";
+export { useDeviceLogin } from "./useDeviceLogin";
+export { useDeviceApproval } from "./useDeviceApproval";
+export { useAccounts } from "./useAccounts";
+export { useEnvironment } from "./useEnvironment";
@@ -0,0 +1,130 @@
+import { useAuthContext } from "../context/AuthContext";
+import { useState, useCallback, useEffect } from "react";
+import { Account, LogoutOptions, Scope, User } from "../types";
+
+/**
+ * useAccounts hook - list, add, switch and remove signed-in accounts
+ *
+ * The AuthProvider state (user, tokens, claims) follows the active account.
+ *
+ * @example
+ * ```tsx
+ * function AccountSwitcher() {
+ *   const { accounts, addAccount, switchAccount, removeAccount } = useAccounts();
+ *
+ *   return (
+ *     <View>
+ *       {accounts.map((account) => (
+ *         <AccountRow
+ *           key={account.id}
+ *           account={account}
+ *           onPress={() => switchAccount(account.id)}
+ *           onRemove={() => removeAccount(account.id)}
+ *         />
+ *       ))}
+ *       <Button title="Add account" onPress={addAccount} />
+ *     </View>
+ *   );
+ * }
+ * ```
+ */
+export function useAccounts<TUser = User>() {
+  const { client, user } = useAuthContext<Scope, TUser>();
+  const [accounts, setAccounts] = useState<Account<TUser>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Reload the account list from storage
+   */
+  const refresh = useCallback(async () => {
+    try {
+      setAccounts(await client.listAccounts());
+    } catch (err) {
+      setError(err as Error);
+    }
+  }, [client]);
+
+  // Reload whenever the active account or its user changes
+  useEffect(() => {
+    refresh();
+  }, [refresh, user]);
+
+  /**
+   * Run an account action with loading and error state
+   */
+  const run = useCallback(
+    async <T>(action: () => Promise<T>): Promise<T> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        return await action();
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        await refresh();
+        setIsLoading(false);
+      }
+    },
+    [refresh],
+  );
+
+  const addAccount = useCallback(
+    () => run(() => client.addAccount()),
+    [client, run],
+  );
+
+  const switchAccount = useCallback(
+    (id: string) => run(() => client.switchAccount(id)),
+    [client, run],
+  );
+
+  const removeAccount = useCallback(
+    (id: string, options?: LogoutOptions) =>
+      run(() => client.removeAccount(id, options)),
+    [client, run],
+  );
+
+  return {
+    /**
+     * Accounts signed in on this device
+     */
+    accounts,
+
+    /**
+     * The account whose session is in use
+     */
+    activeAccount: accounts.find((account) => account.isActive) ?? null,
+
+    /**
+     * Sign in to another account, keeping the current one
+     */
+    addAccount,
+
+    /**
+     * Make another account active
+     */
+    switchAccount,
+
+    /**
+     * Sign out of an account and forget it
+     */
+    removeAccount,
+
+    /**
+     * Reload the account list
+     */
+    refresh,
+
+    /**
+     * Whether an account action is in progress
+     */
+    isLoading,
+
+    /**
+     * Error from the last account action
+     */
+    error,
+  };
+}
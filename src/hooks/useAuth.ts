@@ -1,10 +1,11 @@
 import { useAuthContext } from "../context/AuthContext";
-import { SocialProvider } from "../types";
+import { Scope, SocialProvider, User } from "../types";
 
 /**
  * useAuth hook - provides authentication methods
+ * Type parameters must match the ones used for AuthProvider
  */
-export function useAuth() {
+export function useAuth<TScope extends string = Scope, TUser = User>() {
   const {
     isAuthenticated,
     isLoading,
@@ -13,7 +14,7 @@ export function useAuth() {
     logout,
     refreshToken,
     loginWithSocial,
-  } = useAuthContext();
+  } = useAuthContext<TScope, TUser>();
 
   return {
     /** Whether user is authenticated */
@@ -60,7 +60,7 @@ export function useAuthActions() {
     revokeToken: async () => {
       const tokens = await client.getTokens();
       if (tokens?.accessToken) {
-        return await client.revokeToken(tokens.accessToken);
+        return await client.revokeToken(tokens.accessToken, "access_token");
       }
     },
 
@@ -34,8 +34,11 @@ import { useAuthContext } from "../context/AuthContext";
  *   return <View>...</View>;
  * }
  * ```
+ *
+ * Pass the `name` of an ancestor AuthProvider to reach another client, e.g.
+ * `useAuthClient("tenantA")` inside a nested provider.
  */
-export function useAuthClient() {
-  const { client } = useAuthContext();
+export function useAuthClient(name?: string) {
+  const { client } = useAuthContext(name);
   return client;
 }
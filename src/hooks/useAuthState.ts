@@ -22,16 +22,24 @@ import { useAuthContext } from "../context/AuthContext";
  * ```
  */
 export function useAuthState() {
-  const { isAuthenticated, user, isLoading, error, tokens } = useAuthContext();
+  const {
+    isAuthenticated,
+    user,
+    isLoading,
+    error,
+    tokens,
+    idTokenClaims,
+    client,
+  } = useAuthContext();
 
   // Compute token expiry status using useMemo
-  // Note: Date.now() is technically impure, but we need it to check expiry.
-  // The value is memoized and only recomputed when tokens change.
+  // Note: reading the clock is technically impure, but we need it to check
+  // expiry. The value is memoized and only recomputed when tokens change.
+  // The client corrects for device clock skew and applies `expiryLeeway`.
   const isTokenExpired = useMemo(() => {
     if (!tokens) return false;
-    // eslint-disable-next-line react-hooks/purity
-    return Date.now() >= tokens.expiresAt;
-  }, [tokens]);
+    return client.getRemainingTokenLifetime(tokens.expiresAt) <= 0;
+  }, [client, tokens]);
 
   return {
     /**
@@ -59,6 +67,11 @@ export function useAuthState() {
      */
     tokens,
 
+    /**
+     * Validated OpenID Connect ID token claims (null unless `oidc` is enabled)
+     */
+    idTokenClaims,
+
     /**
      * Computed: Whether the user is logged out
      */
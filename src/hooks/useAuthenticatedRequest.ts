@@ -0,0 +1,92 @@
+import { useAuthContext } from "../context/AuthContext";
+import { useState, useCallback } from "react";
+import { RequestOptions } from "../types";
+
+/**
+ * useAuthenticatedRequest hook - calls your own API with the user's access token
+ *
+ * Wraps client.request() and client.fetch() with loading and error state.
+ * The token is only attached for origins listed in `resourceServers`, and a
+ * 401 response triggers a single token refresh and retry.
+ *
+ * @example
+ * ```tsx
+ * function Orders() {
+ *   const { request, isLoading, error } = useAuthenticatedRequest();
+ *   const [orders, setOrders] = useState<Order[]>([]);
+ *
+ *   useEffect(() => {
+ *     request<Order[]>("https://api.example.com/orders").then(setOrders);
+ *   }, [request]);
+ *
+ *   if (isLoading) return <LoadingSpinner />;
+ *   if (error) return <ErrorMessage error={error} />;
+ *   return <OrderList orders={orders} />;
+ * }
+ * ```
+ */
+export function useAuthenticatedRequest() {
+  const { client } = useAuthContext();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Make a request and return the parsed response body
+   */
+  const request = useCallback(
+    async <T = unknown>(url: string, options?: RequestOptions) => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        return await client.request<T>(url, options);
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [client],
+  );
+
+  /**
+   * Make a request and return the raw fetch Response
+   */
+  const authFetch = useCallback(
+    async (url: string, init?: RequestInit) => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        return await client.fetch(url, init);
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [client],
+  );
+
+  return {
+    /**
+     * Make an authenticated request (axios-based, returns response data)
+     */
+    request,
+
+    /**
+     * Make an authenticated fetch() call (returns the Response)
+     */
+    fetch: authFetch,
+
+    /**
+     * Whether a request is in progress
+     */
+    isLoading,
+
+    /**
+     * Error from the last request
+     */
+    error,
+  };
+}
@@ -0,0 +1,40 @@
+import { useAuthContext } from "../context/AuthContext";
+import { AccessTokenClaims } from "../types";
+
+/**
+ * useClaims hook - decoded claims of the current access token
+ *
+ * The claims are decoded locally without a network call and update whenever
+ * the token is refreshed. The signature is NOT verified, so use them to drive
+ * the UI only; your API must still authorize every request.
+ *
+ * @example
+ * ```tsx
+ * interface MyClaims extends AccessTokenClaims {
+ *   tenant: string;
+ *   roles: string[];
+ * }
+ *
+ * function TenantBadge() {
+ *   const { claims } = useClaims<MyClaims>();
+ *
+ *   if (!claims) return null;
+ *   return <Text>{claims.tenant}</Text>;
+ * }
+ * ```
+ */
+export function useClaims<T extends AccessTokenClaims = AccessTokenClaims>() {
+  const { accessTokenClaims, isLoading } = useAuthContext();
+
+  return {
+    /**
+     * Unverified access token claims (null if signed out or not a JWT)
+     */
+    claims: accessTokenClaims as T | null,
+
+    /**
+     * Whether authentication state is loading
+     */
+    isLoading,
+  };
+}
@@ -0,0 +1,102 @@
+import { useAuthContext } from "../context/AuthContext";
+import { useState, useCallback } from "react";
+
+/**
+ * useDeviceApproval hook - approve or deny another device's login from the
+ * signed-in app (counterpart to useDeviceLogin)
+ *
+ * @example
+ * ```tsx
+ * function ApproveTvScreen({ scannedUrl }: { scannedUrl: string }) {
+ *   const { parseLink, approve, deny, isLoading, error } = useDeviceApproval();
+ *   const { userCode } = parseLink(scannedUrl);
+ *
+ *   return (
+ *     <View>
+ *       <Text>Sign in on your TV with code {userCode}?</Text>
+ *       <Button title="Approve" onPress={() => approve(userCode)} disabled={isLoading} />
+ *       <Button title="Deny" onPress={() => deny(userCode)} disabled={isLoading} />
+ *       {error && <ErrorMessage error={error} />}
+ *     </View>
+ *   );
+ * }
+ * ```
+ */
+export function useDeviceApproval() {
+  const { client } = useAuthContext();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Approve the login for a user code
+   */
+  const approve = useCallback(
+    async (userCode: string) => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        await client.approveDeviceCode(userCode);
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [client],
+  );
+
+  /**
+   * Deny the login for a user code
+   */
+  const deny = useCallback(
+    async (userCode: string) => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        await client.denyDeviceCode(userCode);
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [client],
+  );
+
+  /**
+   * Extract the user code from a scanned verification link
+   */
+  const parseLink = useCallback(
+    (url: string) => client.parseDeviceVerificationLink(url),
+    [client],
+  );
+
+  return {
+    /**
+     * Approve another device's login
+     */
+    approve,
+
+    /**
+     * Deny another device's login
+     */
+    deny,
+
+    /**
+     * Parse a `verification_uri_complete` link (throws for untrusted origins)
+     */
+    parseLink,
+
+    /**
+     * Whether a decision is being submitted
+     */
+    isLoading,
+
+    /**
+     * Error from the last decision
+     */
+    error,
+  };
+}
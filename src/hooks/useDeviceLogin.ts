@@ -0,0 +1,114 @@
+import { useAuthContext } from "../context/AuthContext";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { DeviceLogin } from "../types";
+
+/**
+ * useDeviceLogin hook - device authorization login for TVs and other
+ * limited-input devices (RFC 8628)
+ *
+ * `start()` requests a user code and polls until the user approves it on
+ * another device. On success the AuthProvider receives the usual
+ * `user_logged_in` event. Polling stops on `cancel()` or unmount.
+ *
+ * @example
+ * ```tsx
+ * function TvLoginScreen() {
+ *   const { start, cancel, deviceLogin, isPolling, error } = useDeviceLogin();
+ *
+ *   useEffect(() => {
+ *     start().catch(() => {});
+ *     return cancel;
+ *   }, [start, cancel]);
+ *
+ *   if (!deviceLogin) return <LoadingSpinner />;
+ *   return (
+ *     <View>
+ *       <Text>Go to {deviceLogin.verification_uri}</Text>
+ *       <Text>and enter {deviceLogin.user_code}</Text>
+ *       <QRCode value={deviceLogin.verification_uri_complete} />
+ *     </View>
+ *   );
+ * }
+ * ```
+ */
+export function useDeviceLogin() {
+  const { client } = useAuthContext();
+  const [deviceLogin, setDeviceLogin] = useState<DeviceLogin | null>(null);
+  const [isPolling, setIsPolling] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Stop polling for the current device login
+   */
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsPolling(false);
+  }, []);
+
+  /**
+   * Request a new user code and poll until the login completes
+   */
+  const start = useCallback(async () => {
+    cancel();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      setError(null);
+      setDeviceLogin(null);
+      setIsPolling(true);
+
+      const login = await client.startDeviceLogin();
+      if (controller.signal.aborted) {
+        return null;
+      }
+      setDeviceLogin(login);
+
+      return await client.pollDeviceLogin(login, {
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err as Error);
+      }
+      throw err;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsPolling(false);
+      }
+    }
+  }, [client, cancel]);
+
+  // Stop polling when the component unmounts
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    /**
+     * Start a device login
+     */
+    start,
+
+    /**
+     * Cancel the pending device login
+     */
+    cancel,
+
+    /**
+     * Codes to show the user (null until started)
+     */
+    deviceLogin,
+
+    /**
+     * Whether a device login is in progress
+     */
+    isPolling,
+
+    /**
+     * Error from the last attempt
+     */
+    error,
+  };
+}
@@ -0,0 +1,44 @@
+import { useAuthContext } from "../context/AuthContext";
+
+/**
+ * useEnvironment hook - reads and switches the AuthProvider's environment
+ *
+ * Requires an AuthProvider configured with `environments`. Switching replaces
+ * the client and reloads the auth state from that environment's own storage.
+ *
+ * @example
+ * ```tsx
+ * function EnvironmentPicker() {
+ *   const { environment, environments, switchEnvironment } = useEnvironment();
+ *
+ *   return environments.map((name) => (
+ *     <Button
+ *       key={name}
+ *       title={name}
+ *       disabled={name === environment}
+ *       onPress={() => switchEnvironment(name)}
+ *     />
+ *   ));
+ * }
+ * ```
+ */
+export function useEnvironment(name?: string) {
+  const { environment, environments, switchEnvironment } = useAuthContext(name);
+
+  return {
+    /**
+     * Active environment, or null without `environments`
+     */
+    environment,
+
+    /**
+     * Names of the configured environments
+     */
+    environments,
+
+    /**
+     * Switch to another environment
+     */
+    switchEnvironment,
+  };
+}
@@ -0,0 +1,34 @@
+import { useAuthContext } from "../context/AuthContext";
+import { RoleCheckOptions } from "../types";
+import { getRoles, hasRequiredValues } from "../utils/claims";
+
+/**
+ * useHasRole hook - checks the roles claim of the current session
+ *
+ * Roles are read from the access token claims, or from the ID token claims
+ * when the access token is not a JWT. The claims are not signature-verified
+ * on the device, so use this for UI decisions only.
+ *
+ * @example
+ * ```tsx
+ * function AdminMenu() {
+ *   const isAdmin = useHasRole("admin", { claimPath: "realm_access.roles" });
+ *   return isAdmin ? <AdminLinks /> : null;
+ * }
+ * ```
+ *
+ * @param roles - Role or roles to check
+ * @param options - Match mode and claim path (defaults to `rolesClaim`)
+ * @returns Whether the user's roles satisfy the requirement
+ */
+export function useHasRole(
+  roles: string | string[],
+  options: RoleCheckOptions = {},
+): boolean {
+  const { accessTokenClaims, idTokenClaims, rolesClaim } = useAuthContext();
+  const granted = getRoles(
+    accessTokenClaims ?? idTokenClaims,
+    options.claimPath ?? rolesClaim,
+  );
+  return hasRequiredValues(granted, roles, options.mode);
+}
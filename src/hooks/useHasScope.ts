@@ -0,0 +1,26 @@
+import { useAuthContext } from "../context/AuthContext";
+import { Scope, ScopeCheckOptions } from "../types";
+import { hasRequiredValues } from "../utils/claims";
+
+/**
+ * useHasScope hook - checks the scopes granted to the current access token
+ *
+ * @example
+ * ```tsx
+ * function OrdersTab() {
+ *   const canWrite = useHasScope(["orders:read", "orders:write"]);
+ *   return <OrderList editable={canWrite} />;
+ * }
+ * ```
+ *
+ * @param scopes - Scope or scopes to check
+ * @param options - `mode: "all"` (default) or `"any"`
+ * @returns Whether the granted scopes satisfy the requirement
+ */
+export function useHasScope<TScope extends string = Scope>(
+  scopes: TScope | TScope[],
+  options: ScopeCheckOptions = {},
+): boolean {
+  const { tokens } = useAuthContext<TScope>();
+  return hasRequiredValues(tokens?.scopes ?? [], scopes, options.mode);
+}
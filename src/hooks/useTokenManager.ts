@@ -1,5 +1,6 @@
 import { useAuthContext } from "../context/AuthContext";
 import { useState, useCallback } from "react";
+import { Scope, TokenTypeHint } from "../types";
 
 /**
  * useTokenManager hook - provides token management operations for custom UI
@@ -25,8 +26,8 @@ import { useState, useCallback } from "react";
  * }
  * ```
  */
-export function useTokenManager() {
-  const { client, refreshToken, tokens } = useAuthContext();
+export function useTokenManager<TScope extends string = Scope>() {
+  const { client, refreshToken, tokens } = useAuthContext<TScope>();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [refreshError, setRefreshError] = useState<Error | null>(null);
 
@@ -67,10 +68,33 @@ export function useTokenManager() {
   const revokeCurrentToken = useCallback(async () => {
     const currentTokens = await client.getTokens();
     if (currentTokens?.accessToken) {
-      return await client.revokeToken(currentTokens.accessToken);
+      return await client.revokeToken(
+        currentTokens.accessToken,
+        "access_token",
+      );
     }
   }, [client]);
 
+  /**
+   * Ask the server whether a token is still active (RFC 7662)
+   */
+  const introspect = useCallback(
+    async (token?: string, tokenTypeHint?: TokenTypeHint) => {
+      return await client.introspectToken(token, tokenTypeHint);
+    },
+    [client],
+  );
+
+  /**
+   * Ask the user to consent to additional scopes
+   */
+  const requestAdditionalScopes = useCallback(
+    async (scopes: TScope[]) => {
+      return await client.requestAdditionalScopes(scopes);
+    },
+    [client],
+  );
+
   /**
    * Clear all tokens from storage
    */
@@ -80,15 +104,18 @@ export function useTokenManager() {
 
   /**
    * Check if token is expiring soon (within 5 minutes by default)
+   * Uses the server's clock and counts `expiryLeeway` as already expired.
    */
   const isTokenExpiringSoon = useCallback(
     (thresholdMinutes: number = 5) => {
       if (!tokens) return false;
       const thresholdMs = thresholdMinutes * 60 * 1000;
-      const timeUntilExpiry = tokens.expiresAt - Date.now();
+      const timeUntilExpiry = client.getRemainingTokenLifetime(
+        tokens.expiresAt,
+      );
       return timeUntilExpiry > 0 && timeUntilExpiry < thresholdMs;
     },
-    [tokens],
+    [client, tokens],
   );
 
   /**
@@ -96,17 +123,19 @@ export function useTokenManager() {
    */
   const getTimeUntilExpiry = useCallback(() => {
     if (!tokens) return 0;
-    const remaining = Math.floor((tokens.expiresAt - Date.now()) / 1000);
+    const remaining = Math.floor(
+      client.getRemainingTokenLifetime(tokens.expiresAt) / 1000,
+    );
     return Math.max(0, remaining);
-  }, [tokens]);
+  }, [client, tokens]);
 
   /**
-   * Get token expiry date
+   * Get token expiry date on the device clock
    */
   const getExpiryDate = useCallback(() => {
     if (!tokens) return null;
-    return new Date(tokens.expiresAt);
-  }, [tokens]);
+    return new Date(tokens.expiresAt - client.getClockOffset());
+  }, [client, tokens]);
 
   return {
     /**
@@ -144,6 +173,16 @@ export function useTokenManager() {
      */
     revokeCurrentToken,
 
+    /**
+     * Introspect a token on the server (defaults to the current access token)
+     */
+    introspect,
+
+    /**
+     * Ask for additional scopes and merge them into the session
+     */
+    requestAdditionalScopes,
+
     /**
      * Clear all tokens from storage
      */
@@ -168,7 +207,9 @@ export function useTokenManager() {
     /**
      * Computed: Whether token is currently expired
      */
-    isTokenExpired: tokens ? Date.now() >= tokens.expiresAt : false,
+    isTokenExpired: tokens
+      ? client.getRemainingTokenLifetime(tokens.expiresAt) <= 0
+      : false,
 
     /**
      * Computed: Whether a refresh token exists
@@ -176,7 +217,7 @@ export function useTokenManager() {
     hasRefreshToken: tokens?.refreshToken !== undefined,
 
     /**
-     * Computed: Access token scopes
+     * Computed: Scopes granted to the access token
      */
     scopes: tokens?.scopes || [],
   };
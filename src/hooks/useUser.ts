@@ -1,11 +1,25 @@
 import { useAuthContext } from "../context/AuthContext";
-import { UpdateProfileData } from "../types";
+import { Scope, UpdateProfileData, User } from "../types";
 
 /**
  * useUser hook - provides user data and profile management
+ * Type parameters must match the ones used for AuthProvider
+ *
+ * @example
+ * ```tsx
+ * interface MyUser extends User {
+ *   loyalty_tier: "gold" | "silver";
+ * }
+ *
+ * const { user } = useUser<MyScope, MyUser>();
+ * user?.loyalty_tier;
+ * ```
  */
-export function useUser() {
-  const { user, isLoading, updateProfile, register } = useAuthContext();
+export function useUser<TScope extends string = Scope, TUser = User>() {
+  const { user, isLoading, updateProfile, register } = useAuthContext<
+    TScope,
+    TUser
+  >();
 
   return {
     /** Current user (if authenticated) */
@@ -13,11 +13,23 @@ export {
   useAuthState,
   useTokenManager,
   useAuthClient,
+  useAuthenticatedRequest,
+  useClaims,
+  useHasScope,
+  useHasRole,
+  useDeviceLogin,
+  useDeviceApproval,
+  useAccounts,
+  useEnvironment,
 } from "./hooks";
 
+// Access control components
+export { RequireAuth, RequireScope, RequireRole } from "./components";
+
 // Types
 export type {
   User,
+  Account,
   TokenResponse,
   RegistrationData,
   RegistrationResponse,
@@ -37,6 +49,34 @@ export type {
   UpdateProfileData,
   Scope,
   GrantType,
+  RequestOptions,
+  AuthHttpOptions,
+  IntrospectionResponse,
+  TokenTypeHint,
+  IdTokenClaims,
+  AccessTokenClaims,
+  MatchMode,
+  DeviceAuthorizationResponse,
+  PushedAuthorizationResponse,
+  RetryConfig,
+  RetryOperation,
+  RequestRetryEvent,
+  DeviceLogin,
+  DevicePollOptions,
+  DeviceVerificationLink,
+  TokenExchangeOptions,
+  TokenExchangeResponse,
+  ExchangedToken,
+  ScopeCheckOptions,
+  RoleCheckOptions,
+  DPoPKey,
+  DPoPKeyProvider,
+  JsonWebKey,
+  OpenIDConfiguration,
+  AuthKitEndpoints,
+  LogoutOptions,
+  LogoutResult,
+  LogoutStepError,
 } from "./types";
 
 // Errors
@@ -61,10 +101,16 @@ export {
   generateCodeChallenge,
   generateCodeVerifier,
   generateState,
+  generateNonce,
 } from "./utils/pkce";
 export {
   parseDeepLinkUrl,
   buildAuthorizationUrl,
+  parseDeviceVerificationUrl,
   getInitialUrl,
   addEventListener as addDeepLinkListener,
 } from "./utils/deepLink";
+export { attachAuthKit, createAuthFetch } from "./utils/http";
+export { decodeJwtClaimsUnsafe } from "./utils/jwt";
+export { createDPoPProof } from "./utils/dpop";
+export { TOKEN_TYPES } from "./utils/constants";
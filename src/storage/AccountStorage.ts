@@ -0,0 +1,160 @@
+import * as Crypto from "expo-crypto";
+import { StorageAdapter } from "../types";
+import { ACCOUNTS_STORAGE_KEY, STORAGE_KEYS } from "../utils/constants";
+import { NamespacedStorage } from "./NamespacedStorage";
+
+/**
+ * Account that keeps the un-prefixed keys, so sessions stored before
+ * multi-account support carry over
+ */
+export const DEFAULT_ACCOUNT_ID = "default";
+
+/**
+ * Persisted list of the accounts on this device
+ */
+export interface AccountRegistry {
+  /** Account whose session the client currently uses */
+  activeId: string;
+  /** Account IDs in the order they were added */
+  ids: string[];
+}
+
+/**
+ * Tokens of a session stored before client namespacing
+ */
+export interface LegacySessionTokens {
+  accessToken: string | null;
+  idToken: string | null;
+}
+
+/**
+ * Create a random account ID (hex, safe for SecureStore keys)
+ */
+export function createAccountId(): string {
+  return Array.from(Crypto.getRandomBytes(8), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Storage for multi-account sessions
+ * Reads and writes go to the active account's namespace, so the rest of the
+ * client works with a single flat set of keys.
+ */
+export class AccountStorage implements StorageAdapter {
+  private registry: Promise<AccountRegistry> | null = null;
+
+  /**
+   * @param storage - The client's namespaced storage
+   * @param legacyStorage - Un-namespaced storage to adopt an older session from
+   * @param ownsLegacySession - Whether a legacy session belongs to this
+   * client; sessions failing the check are left in place
+   */
+  constructor(
+    private storage: StorageAdapter,
+    private legacyStorage?: StorageAdapter,
+    private ownsLegacySession: (tokens: LegacySessionTokens) => boolean = () =>
+      false,
+  ) {}
+
+  /**
+   * Load the account registry (cached after the first read)
+   */
+  getRegistry(): Promise<AccountRegistry> {
+    if (!this.registry) {
+      this.registry = this.loadRegistry().catch((error) => {
+        this.registry = null;
+        throw error;
+      });
+    }
+    return this.registry;
+  }
+
+  /**
+   * Persist the account registry
+   */
+  async saveRegistry(registry: AccountRegistry): Promise<void> {
+    this.registry = Promise.resolve(registry);
+    await this.storage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(registry));
+  }
+
+  /**
+   * Storage of a single account
+   */
+  forAccount(id: string): StorageAdapter {
+    return new NamespacedStorage(
+      this.storage,
+      id === DEFAULT_ACCOUNT_ID ? "" : `account.${id}.`,
+    );
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return (await this.getActive()).getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await (await this.getActive()).setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await (await this.getActive()).removeItem(key);
+  }
+
+  /**
+   * Clear the active account's session
+   */
+  async clear(): Promise<void> {
+    await (await this.getActive()).clear();
+  }
+
+  private async getActive(): Promise<StorageAdapter> {
+    const { activeId } = await this.getRegistry();
+    return this.forAccount(activeId);
+  }
+
+  private async loadRegistry(): Promise<AccountRegistry> {
+    const raw = await this.storage.getItem(ACCOUNTS_STORAGE_KEY);
+    if (raw) {
+      try {
+        return JSON.parse(raw);
+      } catch (error) {
+        // Fall back to the default account
+      }
+    }
+
+    // First start of this namespace
+    if (this.legacyStorage) {
+      await this.adoptLegacySession(this.legacyStorage);
+    }
+    const registry = { activeId: DEFAULT_ACCOUNT_ID, ids: [] };
+    await this.saveRegistry(registry);
+    return registry;
+  }
+
+  /**
+   * Move a session stored without a client namespace into the default
+   * account if it belongs to this client
+   */
+  private async adoptLegacySession(legacy: StorageAdapter): Promise<void> {
+    const accessToken = await legacy.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+    const hasSession =
+      accessToken || (await legacy.getItem(STORAGE_KEYS.REFRESH_TOKEN));
+    if (!hasSession) {
+      return;
+    }
+
+    const idToken = await legacy.getItem(STORAGE_KEYS.ID_TOKEN);
+    if (!this.ownsLegacySession({ accessToken, idToken })) {
+      return;
+    }
+
+    const session = this.forAccount(DEFAULT_ACCOUNT_ID);
+    for (const key of Object.values(STORAGE_KEYS)) {
+      const value = await legacy.getItem(key);
+      if (value !== null) {
+        await session.setItem(key, value);
+        await legacy.removeItem(key);
+      }
+    }
+  }
+}
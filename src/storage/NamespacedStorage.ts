@@ -0,0 +1,67 @@
+import { StorageAdapter } from "../types";
+import { STORAGE_KEYS } from "../utils/constants";
+
+/**
+ * Derive the storage namespace of a client
+ * An explicit `instanceId` wins; otherwise the namespace is a hash of the
+ * server URL and client ID, so different clients never share keys.
+ * @returns Namespace made of characters that are valid in SecureStore keys
+ */
+export function getClientNamespace(
+  authKitUrl: string,
+  clientId: string,
+  instanceId?: string,
+): string {
+  if (instanceId) {
+    return instanceId.replace(/[^A-Za-z0-9_-]/g, "_");
+  }
+
+  // 32-bit FNV-1a
+  const input = `${authKitUrl.replace(/\/+$/, "")}|${clientId}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Storage adapter view that prefixes every key with a namespace
+ * Lets several sessions share one underlying adapter without overwriting
+ * each other. clear() only removes AuthKit keys inside the namespace.
+ */
+export class NamespacedStorage implements StorageAdapter {
+  constructor(
+    private storage: StorageAdapter,
+    private namespace: string,
+  ) {}
+
+  /**
+   * Get namespaced key for storage
+   */
+  private getKey(key: string): string {
+    return `${this.namespace}${key}`;
+  }
+
+  getItem(key: string): string | null | Promise<string | null> {
+    return this.storage.getItem(this.getKey(key));
+  }
+
+  setItem(key: string, value: string): void | Promise<void> {
+    return this.storage.setItem(this.getKey(key), value);
+  }
+
+  removeItem(key: string): void | Promise<void> {
+    return this.storage.removeItem(this.getKey(key));
+  }
+
+  /**
+   * Remove the known AuthKit keys of this namespace
+   */
+  async clear(): Promise<void> {
+    await Promise.all(
+      Object.values(STORAGE_KEYS).map((key) => this.removeItem(key)),
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import * as SecureStore from "expo-secure-store";
 import { StorageAdapter } from "../types";
 import { StorageError } from "../errors";
+import { STORAGE_KEYS } from "../utils/constants";
 
 /**
  * SecureStore adapter for React Native/Expo
@@ -71,16 +72,7 @@ export class SecureStoreAdapter implements StorageAdapter {
    */
   async clear(): Promise<void> {
     try {
-      const knownKeys = [
-        "access_token",
-        "refresh_token",
-        "token_type",
-        "expires_at",
-        "user",
-        "user_cached_at",
-        "pkce_verifier",
-        "oauth_state",
-      ];
+      const knownKeys = Object.values(STORAGE_KEYS);
 
       // Remove all known keys
       await Promise.all(
@@ -0,0 +1,6 @@
+// Test and development helpers - not for production use
+export {
+  SoftwareDPoPKeyProvider,
+  createSoftwareDPoPKey,
+  generateDPoPJwk,
+} from "./softwareDPoPKey";
@@ -0,0 +1,193 @@
+import * as Crypto from "expo-crypto";
+import { bigIntToBytes, bytesToBigInt, mod, modPow } from "../utils/bigint";
+
+/**
+ * NIST P-256 (secp256r1) domain parameters (FIPS 186-4, appendix D.1.2.3)
+ */
+const P = BigInt(
+  "0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff",
+);
+const N = BigInt(
+  "0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551",
+);
+const GX = BigInt(
+  "0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296",
+);
+const GY = BigInt(
+  "0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5",
+);
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+const FOUR = BigInt(4);
+const EIGHT = BigInt(8);
+
+/** Size of a P-256 coordinate or scalar in bytes */
+const COORDINATE_LENGTH = 32;
+
+/**
+ * Point in Jacobian coordinates (x = X/Z^2, y = Y/Z^3); Z = 0 is infinity
+ */
+interface JacobianPoint {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+const INFINITY: JacobianPoint = { x: ONE, y: ONE, z: ZERO };
+const GENERATOR: JacobianPoint = { x: GX, y: GY, z: ONE };
+
+/**
+ * Public key of a P-256 key pair as affine coordinates
+ */
+export interface P256PublicKey {
+  x: Uint8Array;
+  y: Uint8Array;
+}
+
+/**
+ * Modular inverse using Fermat's little theorem (m must be prime)
+ */
+function invert(value: bigint, m: bigint): bigint {
+  return modPow(value, m - TWO, m);
+}
+
+/**
+ * Point doubling for curves with a = -3 (dbl-2001-b)
+ */
+function double(point: JacobianPoint): JacobianPoint {
+  if (point.z === ZERO || point.y === ZERO) {
+    return INFINITY;
+  }
+
+  const delta = mod(point.z * point.z, P);
+  const gamma = mod(point.y * point.y, P);
+  const beta = mod(point.x * gamma, P);
+  const alpha = mod(THREE * (point.x - delta) * (point.x + delta), P);
+  const x = mod(alpha * alpha - EIGHT * beta, P);
+  const z = mod((point.y + point.z) ** TWO - gamma - delta, P);
+  const y = mod(alpha * (FOUR * beta - x) - EIGHT * gamma * gamma, P);
+
+  return { x, y, z };
+}
+
+/**
+ * Point addition (add-2007-bl)
+ */
+function add(a: JacobianPoint, b: JacobianPoint): JacobianPoint {
+  if (a.z === ZERO) {
+    return b;
+  }
+  if (b.z === ZERO) {
+    return a;
+  }
+
+  const z1z1 = mod(a.z * a.z, P);
+  const z2z2 = mod(b.z * b.z, P);
+  const u1 = mod(a.x * z2z2, P);
+  const u2 = mod(b.x * z1z1, P);
+  const s1 = mod(a.y * b.z * z2z2, P);
+  const s2 = mod(b.y * a.z * z1z1, P);
+  const h = mod(u2 - u1, P);
+  const r = mod(TWO * (s2 - s1), P);
+
+  if (h === ZERO) {
+    return r === ZERO ? double(a) : INFINITY;
+  }
+
+  const i = mod(FOUR * h * h, P);
+  const j = mod(h * i, P);
+  const v = mod(u1 * i, P);
+  const x = mod(r * r - j - TWO * v, P);
+  const y = mod(r * (v - x) - TWO * s1 * j, P);
+  const z = mod(((a.z + b.z) ** TWO - z1z1 - z2z2) * h, P);
+
+  return { x, y, z };
+}
+
+/**
+ * Scalar multiplication of the generator (double-and-add)
+ */
+function multiplyGenerator(scalar: bigint): { x: bigint; y: bigint } {
+  let result = INFINITY;
+  let addend = GENERATOR;
+  let k = scalar;
+
+  while (k > ZERO) {
+    if ((k & ONE) === ONE) {
+      result = add(result, addend);
+    }
+    addend = double(addend);
+    k >>= ONE;
+  }
+
+  const zInverse = invert(result.z, P);
+  const zInverse2 = mod(zInverse * zInverse, P);
+  return {
+    x: mod(result.x * zInverse2, P),
+    y: mod(result.y * zInverse2 * zInverse, P),
+  };
+}
+
+/**
+ * Random scalar in [1, n - 1]
+ * Draws 16 extra bytes so the modulo bias is negligible
+ */
+function randomScalar(): bigint {
+  const bytes = Crypto.getRandomBytes(COORDINATE_LENGTH + 16);
+  return mod(bytesToBigInt(bytes), N - ONE) + ONE;
+}
+
+/**
+ * Generate a new P-256 private key
+ * @returns Private key as raw 32-byte scalar
+ */
+export function generateP256PrivateKey(): Uint8Array {
+  return bigIntToBytes(randomScalar(), COORDINATE_LENGTH);
+}
+
+/**
+ * Derive the public key for a P-256 private key
+ * @param privateKey Raw 32-byte private scalar
+ * @returns Affine public key coordinates
+ */
+export function getP256PublicKey(privateKey: Uint8Array): P256PublicKey {
+  const point = multiplyGenerator(bytesToBigInt(privateKey));
+  return {
+    x: bigIntToBytes(point.x, COORDINATE_LENGTH),
+    y: bigIntToBytes(point.y, COORDINATE_LENGTH),
+  };
+}
+
+/**
+ * Create an ECDSA P-256 signature over a SHA-256 digest
+ * @param privateKey Raw 32-byte private scalar
+ * @param digest SHA-256 digest of the message
+ * @returns Signature as `r || s` (64 bytes, the JWS ES256 format)
+ */
+export function signP256(
+  privateKey: Uint8Array,
+  digest: Uint8Array,
+): Uint8Array {
+  const d = bytesToBigInt(privateKey);
+  const e = bytesToBigInt(digest);
+
+  for (;;) {
+    const k = randomScalar();
+    const r = mod(multiplyGenerator(k).x, N);
+    if (r === ZERO) {
+      continue;
+    }
+    const s = mod(invert(k, N) * (e + r * d), N);
+    if (s === ZERO) {
+      continue;
+    }
+
+    const signature = new Uint8Array(COORDINATE_LENGTH * 2);
+    signature.set(bigIntToBytes(r, COORDINATE_LENGTH), 0);
+    signature.set(bigIntToBytes(s, COORDINATE_LENGTH), COORDINATE_LENGTH);
+    return signature;
+  }
+}
@@ -0,0 +1,102 @@
+import * as Crypto from "expo-crypto";
+import { DPoPKey, DPoPKeyProvider, JsonWebKey, StorageAdapter } from "../types";
+import { ConfigurationError } from "../errors";
+import { STORAGE_KEYS } from "../utils/constants";
+import { base64UrlToBytes, bytesToBase64Url } from "../utils/jwt";
+import { generateP256PrivateKey, getP256PublicKey, signP256 } from "./p256";
+
+/**
+ * Convert a hex string to bytes
+ */
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Create an ES256 DPoP key from a P-256 private JWK
+ * @param jwk Private key with `d`, `x` and `y`
+ */
+export function createSoftwareDPoPKey(jwk: JsonWebKey): DPoPKey {
+  if (jwk.kty !== "EC" || jwk.crv !== "P-256" || !jwk.d) {
+    throw new ConfigurationError("DPoP key must be a P-256 private key");
+  }
+  const privateKey = base64UrlToBytes(jwk.d);
+
+  return {
+    alg: "ES256",
+    publicJwk: { kty: "EC", crv: "P-256", x: jwk.x, y: jwk.y },
+    sign: async (signingInput) => {
+      const digest = await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA256,
+        signingInput,
+        { encoding: Crypto.CryptoEncoding.HEX },
+      );
+      return bytesToBase64Url(signP256(privateKey, hexToBytes(digest)));
+    },
+  };
+}
+
+/**
+ * Generate a new P-256 private JWK
+ */
+export function generateDPoPJwk(): JsonWebKey {
+  const privateKey = generateP256PrivateKey();
+  const { x, y } = getP256PublicKey(privateKey);
+
+  return {
+    kty: "EC",
+    crv: "P-256",
+    x: bytesToBase64Url(x),
+    y: bytesToBase64Url(y),
+    d: bytesToBase64Url(privateKey),
+  };
+}
+
+/**
+ * DPoP key provider for tests and development: a software P-256 key kept in
+ * a storage adapter
+ *
+ * NOT for production: the signer is not constant-time and the private key
+ * is stored as a JWK. Use a provider backed by a hardware keystore instead.
+ */
+export class SoftwareDPoPKeyProvider implements DPoPKeyProvider {
+  private key: Promise<DPoPKey> | null = null;
+
+  constructor(private storage: StorageAdapter) {}
+
+  /**
+   * Load the persisted key, generating and storing one on first use
+   */
+  getKey(): Promise<DPoPKey> {
+    if (!this.key) {
+      this.key = this.loadKey().catch((error) => {
+        this.key = null;
+        throw error;
+      });
+    }
+    return this.key;
+  }
+
+  /**
+   * Forget the key; the next getKey() generates a new one
+   */
+  async deleteKey(): Promise<void> {
+    this.key = null;
+    await this.storage.removeItem(STORAGE_KEYS.DPOP_KEY);
+  }
+
+  private async loadKey(): Promise<DPoPKey> {
+    const stored = await this.storage.getItem(STORAGE_KEYS.DPOP_KEY);
+    if (stored) {
+      return createSoftwareDPoPKey(JSON.parse(stored));
+    }
+
+    const jwk = generateDPoPJwk();
+    await this.storage.setItem(STORAGE_KEYS.DPOP_KEY, JSON.stringify(jwk));
+    return createSoftwareDPoPKey(jwk);
+  }
+}
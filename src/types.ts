@@ -34,6 +34,8 @@ export interface TokenResponse {
   expires_in: number;
   /** Space-separated list of granted scopes */
   scope: string;
+  /** OpenID Connect ID token (when the `openid` scope was granted) */
+  id_token?: string;
 }
 
 /**
@@ -52,6 +54,214 @@ export interface RegistrationData {
   last_name?: string;
 }
 
+/**
+ * Token type hint for revocation and introspection requests
+ */
+export type TokenTypeHint = "access_token" | "refresh_token";
+
+/**
+ * OAuth 2.0 token introspection response (RFC 7662)
+ */
+export interface IntrospectionResponse {
+  /** Whether the token is currently active */
+  active: boolean;
+  /** Space-separated list of scopes associated with the token */
+  scope?: string;
+  /** Client identifier the token was issued to */
+  client_id?: string;
+  /** Human-readable identifier of the resource owner */
+  username?: string;
+  /** Type of the token (e.g., "Bearer") */
+  token_type?: string;
+  /** Expiry time (Unix timestamp in seconds) */
+  exp?: number;
+  /** Issue time (Unix timestamp in seconds) */
+  iat?: number;
+  /** Not-before time (Unix timestamp in seconds) */
+  nbf?: number;
+  /** Subject of the token (usually the user ID) */
+  sub?: string;
+  /** Intended audience(s) of the token */
+  aud?: string | string[];
+  /** Issuer of the token */
+  iss?: string;
+  /** Unique token identifier */
+  jti?: string;
+  /** Additional server-specific fields */
+  [key: string]: unknown;
+}
+
+/**
+ * Claims of a JWT access token
+ * Decoded without signature verification - treat as untrusted
+ */
+export interface AccessTokenClaims {
+  /** Issuer identifier */
+  iss?: string;
+  /** Subject (user) identifier */
+  sub?: string;
+  /** Audience(s) the token is intended for */
+  aud?: string | string[];
+  /** Expiry time (Unix timestamp in seconds) */
+  exp?: number;
+  /** Issue time (Unix timestamp in seconds) */
+  iat?: number;
+  /** Space-separated list of granted scopes */
+  scope?: string;
+  /** OAuth client the token was issued to */
+  client_id?: string;
+  /** Additional claims (roles, tenant, ...) */
+  [key: string]: unknown;
+}
+
+/**
+ * Pushed authorization response (RFC 9126, section 2.2)
+ */
+export interface PushedAuthorizationResponse {
+  /** Reference to the pushed parameters for the authorize URL */
+  request_uri: string;
+  /** Lifetime of the request URI in seconds */
+  expires_in: number;
+}
+
+/**
+ * Device authorization response (RFC 8628, section 3.2)
+ */
+export interface DeviceAuthorizationResponse {
+  /** Code the device polls the token endpoint with */
+  device_code: string;
+  /** Code the user enters on the verification page */
+  user_code: string;
+  /** Verification page to show the user */
+  verification_uri: string;
+  /** Verification page with the user code embedded (e.g. for a QR code) */
+  verification_uri_complete?: string;
+  /** Lifetime of the codes in seconds */
+  expires_in: number;
+  /** Minimum polling interval in seconds (default: 5) */
+  interval?: number;
+}
+
+/**
+ * A pending device login, as returned by client.startDeviceLogin()
+ */
+export interface DeviceLogin extends DeviceAuthorizationResponse {
+  /** When the codes expire (Unix timestamp in milliseconds) */
+  expiresAt: number;
+}
+
+/**
+ * Options for polling a device login
+ */
+export interface DevicePollOptions {
+  /** Abort the polling (e.g. when the user leaves the screen) */
+  signal?: AbortSignal;
+}
+
+/**
+ * OpenID Connect ID token claims
+ */
+export interface IdTokenClaims {
+  /** Issuer identifier */
+  iss: string;
+  /** Subject (user) identifier */
+  sub: string;
+  /** Audience(s) the token is intended for */
+  aud: string | string[];
+  /** Expiry time (Unix timestamp in seconds) */
+  exp: number;
+  /** Issue time (Unix timestamp in seconds) */
+  iat: number;
+  /** Nonce sent with the authorization request */
+  nonce?: string;
+  /** Time of the end-user authentication (Unix timestamp in seconds) */
+  auth_time?: number;
+  /** Authorized party */
+  azp?: string;
+  /** User's email address */
+  email?: string;
+  /** Whether the user's email has been verified */
+  email_verified?: boolean;
+  /** User's full name */
+  name?: string;
+  /** User's first name */
+  given_name?: string;
+  /** User's last name */
+  family_name?: string;
+  /** URL to user's avatar image */
+  picture?: string;
+  /** Additional claims */
+  [key: string]: unknown;
+}
+
+/**
+ * JSON Web Key (RFC 7517) as published by a JWKS endpoint
+ */
+export interface JsonWebKey {
+  /** Key type (e.g., "RSA") */
+  kty: string;
+  /** Key ID */
+  kid?: string;
+  /** Intended use ("sig" or "enc") */
+  use?: string;
+  /** Algorithm the key is used with */
+  alg?: string;
+  /** RSA modulus (base64url) */
+  n?: string;
+  /** RSA public exponent (base64url) */
+  e?: string;
+  /** Elliptic curve name (e.g., "P-256") */
+  crv?: string;
+  /** EC x coordinate (base64url) */
+  x?: string;
+  /** EC y coordinate (base64url) */
+  y?: string;
+  /** Private key component (base64url) - never sent to a server */
+  d?: string;
+  /** Additional key parameters */
+  [key: string]: unknown;
+}
+
+/**
+ * OpenID Connect discovery document (OpenID Connect Discovery 1.0 / RFC 8414)
+ */
+export interface OpenIDConfiguration {
+  /** Issuer identifier */
+  issuer: string;
+  /** Authorization endpoint URL */
+  authorization_endpoint?: string;
+  /** Token endpoint URL */
+  token_endpoint?: string;
+  /** UserInfo endpoint URL */
+  userinfo_endpoint?: string;
+  /** JWKS document URL */
+  jwks_uri?: string;
+  /** Token revocation endpoint URL (RFC 7009) */
+  revocation_endpoint?: string;
+  /** Token introspection endpoint URL (RFC 7662) */
+  introspection_endpoint?: string;
+  /** RP-initiated logout endpoint URL */
+  end_session_endpoint?: string;
+  /** Device authorization endpoint URL (RFC 8628) */
+  device_authorization_endpoint?: string;
+  /** Pushed authorization request endpoint URL (RFC 9126) */
+  pushed_authorization_request_endpoint?: string;
+  /** Whether the server only accepts pushed authorization requests */
+  require_pushed_authorization_requests?: boolean;
+  /** Supported scopes */
+  scopes_supported?: string[];
+  /** Supported response types */
+  response_types_supported?: string[];
+  /** Supported grant types */
+  grant_types_supported?: string[];
+  /** Supported PKCE code challenge methods */
+  code_challenge_methods_supported?: string[];
+  /** Supported ID token signing algorithms */
+  id_token_signing_alg_values_supported?: string[];
+  /** Additional metadata */
+  [key: string]: unknown;
+}
+
 /**
  * Registration response from the API
  */
@@ -95,12 +305,16 @@ export interface SocialAuthConfig {
 export type GrantType =
   | "authorization_code"
   | "refresh_token"
-  | "client_credentials";
+  | "client_credentials"
+  | "urn:ietf:params:oauth:grant-type:device_code"
+  | "urn:ietf:params:oauth:grant-type:token-exchange";
 
 /**
  * OAuth 2.0 scopes
+ * Built-in AuthKit scopes. Apps with custom scopes pass their own string
+ * union as the `TScope` type parameter (e.g. `AuthKitConfig<MyScope>`).
  */
-export type Scope = "read" | "write" | "profile" | "email";
+export type Scope = "openid" | "read" | "write" | "profile" | "email";
 
 /**
  * Storage adapter interface for token persistence
@@ -116,10 +330,109 @@ export interface StorageAdapter {
   clear(): void | Promise<void>;
 }
 
+/**
+ * Key pair used to sign DPoP proofs (RFC 9449)
+ */
+export interface DPoPKey {
+  /** JWS algorithm of the key (e.g., "ES256") */
+  alg: string;
+  /** Public key embedded in every proof - must not contain private parts */
+  publicJwk: JsonWebKey;
+  /**
+   * Sign a JWS signing input
+   * @returns The base64url-encoded signature
+   */
+  sign(signingInput: string): Promise<string>;
+}
+
+/**
+ * Supplies the DPoP key pair, e.g. backed by a hardware keystore
+ */
+export interface DPoPKeyProvider {
+  /** Return the persisted key, creating one on first use */
+  getKey(): Promise<DPoPKey>;
+  /** Delete the key so the next getKey() creates a new one */
+  deleteKey(): Promise<void>;
+}
+
+/**
+ * Retry policy for transient failures of idempotent requests
+ * (token refresh, userinfo and revoke)
+ */
+export interface RetryConfig {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelay?: number;
+  /** Upper bound of a single delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Factor the delay grows by with every retry (default: 2) */
+  backoffFactor?: number;
+  /** Randomize each delay between 0 and the backoff value (default: true) */
+  jitter?: boolean;
+  /** HTTP statuses to retry (default: 408, 429, 500, 502, 503, 504) */
+  retryStatuses?: number[];
+  /** Retry timeouts and requests that got no response (default: true) */
+  retryNetworkErrors?: boolean;
+}
+
+/**
+ * Request that can be retried under the retry policy
+ */
+export type RetryOperation = "refresh" | "userinfo" | "revoke";
+
+/**
+ * Payload of the `request_retry` event
+ */
+export interface RequestRetryEvent {
+  /** The request being retried */
+  operation: RetryOperation;
+  /** Number of the attempt that failed (starting at 1) */
+  attempt: number;
+  /** Milliseconds until the next attempt */
+  delay: number;
+  /** Error of the failed attempt */
+  error: unknown;
+}
+
+/**
+ * AuthKit server endpoints
+ * Values are paths relative to authKitUrl or absolute URLs
+ */
+export interface AuthKitEndpoints {
+  /** OAuth authorization endpoint */
+  AUTHORIZE: string;
+  /** OAuth token endpoint */
+  TOKEN: string;
+  /** User info endpoint */
+  USERINFO: string;
+  /** User registration endpoint */
+  REGISTER: string;
+  /** Profile update endpoint */
+  PROFILE: string;
+  /** Token introspection endpoint */
+  INTROSPECT: string;
+  /** Token revocation endpoint */
+  REVOKE: string;
+  /** JWKS document for ID token validation */
+  JWKS: string;
+  /** OIDC RP-initiated logout endpoint */
+  END_SESSION: string;
+  /** Device authorization endpoint (RFC 8628) */
+  DEVICE_AUTHORIZATION: string;
+  /** Pushed authorization request endpoint (RFC 9126) */
+  PAR: string;
+  /** Approve or deny another device's user code */
+  DEVICE_VERIFICATION: string;
+  /** Builds the social login path for a provider */
+  SOCIAL_LOGIN: (provider: string) => string;
+}
+
 /**
  * AuthKit React Native configuration options
+ * @typeParam TScope - Scope strings accepted by `scopes`
  */
-export interface AuthKitConfig {
+export interface AuthKitConfig<TScope extends string = Scope> {
   /** Base URL of the AuthKit server */
   authKitUrl: string;
   /** OAuth 2.0 client ID */
@@ -129,23 +442,113 @@ export interface AuthKitConfig {
   /** OAuth 2.0 redirect URI (deep link scheme) */
   redirectUri: string;
   /** OAuth 2.0 scopes to request */
-  scopes?: Scope[];
+  scopes?: TScope[];
   /** Storage adapter for token persistence (defaults to AsyncStorage) */
   storage?: StorageAdapter;
+  /**
+   * Storage namespace of this client. Defaults to one derived from
+   * `authKitUrl` and `clientId`, so clients for different servers or apps
+   * never overwrite each other's tokens.
+   */
+  instanceId?: string;
+  /**
+   * Adopt a session stored by a version without client namespaces even when
+   * its tokens don't show which client it belongs to (opaque tokens). Only
+   * enable this in apps with a single AuthKit client (default: false).
+   */
+  adoptLegacySession?: boolean;
   /** Enable PKCE (Proof Key for Code Exchange) - recommended for mobile */
   pkce?: boolean;
   /** Enable debug logging */
   debug?: boolean;
   /** Custom HTTP headers to include in all requests */
   headers?: Record<string, string>;
+  /**
+   * Override individual endpoints (e.g. when AuthKit runs behind a gateway)
+   * Overrides take precedence over discovery metadata
+   */
+  endpoints?: Partial<AuthKitEndpoints>;
   /** Timeout for HTTP requests in milliseconds */
   timeout?: number;
   /** Enable automatic token refresh */
   autoRefresh?: boolean;
   /** Time in seconds before token expiry to trigger auto-refresh */
   refreshThreshold?: number;
+  /**
+   * Seconds before expiry at which a token is already treated as expired,
+   * so it isn't sent in its last moments (default: 30)
+   */
+  expiryLeeway?: number;
   /** Enable secure storage for tokens (uses SecureStore if available) */
   secureStorage?: boolean;
+  /**
+   * Origins of your own API servers (e.g., 'https://api.example.com') that may
+   * receive the access token via client.request() / client.fetch()
+   */
+  resourceServers?: string[];
+  /**
+   * Enable OpenID Connect: requests the `openid` scope, sends a nonce and
+   * validates the returned ID token (signature, iss, aud, exp, iat, nonce)
+   */
+  oidc?: boolean;
+  /** Expected ID token issuer (defaults to authKitUrl) */
+  issuer?: string;
+  /**
+   * Load endpoints from `${issuer}/.well-known/openid-configuration`
+   * The document is fetched once and cached in storage
+   */
+  discovery?: boolean;
+  /**
+   * Dot-separated token claim path that holds the user's roles, used by
+   * useHasRole() and <RequireRole> (default: "roles")
+   * @example "realm_access.roles"
+   */
+  rolesClaim?: string;
+  /**
+   * Resource indicators (RFC 8707): URIs of APIs that need their own
+   * audience-restricted access token. Requests whose URL starts with one of
+   * these get a token minted for that resource.
+   * @example ["https://orders.example.com", "https://billing.example.com/v2"]
+   */
+  resources?: string[];
+  /**
+   * Sender-constrain tokens with DPoP (RFC 9449): token requests and API
+   * calls made through the client carry a proof signed by a per-install key
+   */
+  dpop?: boolean;
+  /**
+   * Source of the DPoP key pair, required with `dpop`. The SDK doesn't
+   * generate keys itself: back the provider with a hardware keystore in
+   * production. `SoftwareDPoPKeyProvider` from `/testing` is meant for tests
+   * and development only.
+   */
+  dpopKeyProvider?: DPoPKeyProvider;
+  /**
+   * Send authorization parameters with a pushed authorization request
+   * (RFC 9126) and open the authorize URL with only `client_id` and
+   * `request_uri`. Falls back to a regular authorization URL when discovery
+   * doesn't advertise a PAR endpoint or the endpoint answers 404/405, unless
+   * discovery reports `require_pushed_authorization_requests`.
+   */
+  par?: boolean;
+  /**
+   * Retry policy for token refresh, userinfo and revoke requests that fail
+   * with a transient error. Pass `false` to disable retries.
+   */
+  retry?: RetryConfig | false;
+}
+
+/**
+ * Account signed in on this device (see client.listAccounts())
+ * @typeParam TUser - Shape of the user profile returned by the API
+ */
+export interface Account<TUser = User> {
+  /** Local account identifier (not the user ID) */
+  id: string;
+  /** Cached profile of the account's user, if it was loaded */
+  user: TUser | null;
+  /** Whether the client currently uses this account's session */
+  isActive: boolean;
 }
 
 /**
@@ -159,6 +562,9 @@ export type AuthEvent =
   | "user_logged_out"
   | "user_registered"
   | "user_updated"
+  | "scopes_granted"
+  | "account_switched"
+  | "request_retry"
   | "network_error"
   | "biometric_auth_success"
   | "biometric_auth_failed";
@@ -180,10 +586,61 @@ export interface RequestOptions {
   body?: unknown;
   /** Query parameters */
   params?: Record<string, string>;
-  /** Include access token in Authorization header */
+  /** Include access token in Authorization header (default: true) */
   withAuth?: boolean;
 }
 
+/**
+ * Options for attaching AuthKit token handling to your own HTTP clients
+ */
+export interface AuthHttpOptions {
+  /**
+   * Origins (e.g., 'https://api.example.com') or HTTPS hostnames allowed to
+   * receive the access token. Defaults to `resourceServers`.
+   */
+  hosts?: string[];
+}
+
+/**
+ * Logout options
+ */
+export interface LogoutOptions {
+  /** Revoke the refresh token as well as the access token (default: true) */
+  revokeAll?: boolean;
+  /**
+   * Open the server's end-session endpoint to clear the browser SSO session,
+   * so the next login() prompts for credentials again (default: false)
+   */
+  endSession?: boolean;
+  /** Where the server redirects after ending the session (defaults to redirectUri) */
+  postLogoutRedirectUri?: string;
+}
+
+/**
+ * A logout step that failed
+ */
+export interface LogoutStepError {
+  /** The step that failed */
+  step: "revoke_access_token" | "revoke_refresh_token" | "end_session";
+  /** The error that occurred */
+  error: Error;
+}
+
+/**
+ * Logout result
+ * The local session is always cleared; server-side steps may fail individually
+ */
+export interface LogoutResult {
+  /** Whether every requested step succeeded */
+  success: boolean;
+  /** Tokens that were revoked on the server */
+  revoked: TokenTypeHint[];
+  /** Whether the server-side session was ended */
+  sessionEnded: boolean;
+  /** Failed steps */
+  errors: LogoutStepError[];
+}
+
 /**
  * Error response from the AuthKit API
  */
@@ -229,6 +686,65 @@ export interface TokenMetadata {
   scopes: string[];
 }
 
+/**
+ * Options for client.getAccessToken()
+ */
+export interface AccessTokenOptions {
+  /** Return a token restricted to this resource (RFC 8707) */
+  resource?: string;
+  /** Mint a new resource token even if a cached one is still valid */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Options for OAuth token exchange (RFC 8693)
+ */
+export interface TokenExchangeOptions<TScope extends string = Scope> {
+  /** Logical name of the target service */
+  audience?: string;
+  /** URI of the target resource server */
+  resource?: string;
+  /** Scopes to request for the exchanged token */
+  scope?: TScope[];
+  /**
+   * Type of the subject token (default: access token). The matching stored
+   * token is sent unless `subjectToken` is given.
+   */
+  subjectTokenType?: string;
+  /** Token to exchange (defaults to the stored token of `subjectTokenType`) */
+  subjectToken?: string;
+  /** Type of token to request (server default if omitted) */
+  requestedTokenType?: string;
+  /** Skip the cache and request a new token */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Token exchange response (RFC 8693, section 2.2.1)
+ */
+export interface TokenExchangeResponse {
+  /** The issued token (not necessarily an access token) */
+  access_token: string;
+  /** Type identifier of the issued token */
+  issued_token_type: string;
+  /** Token type (e.g. "Bearer", or "N_A" for non-access tokens) */
+  token_type: string;
+  /** Token lifetime in seconds */
+  expires_in?: number;
+  /** Space-separated list of granted scopes */
+  scope?: string;
+  /** Refresh token (rarely issued for exchanged tokens) */
+  refresh_token?: string;
+}
+
+/**
+ * A token obtained via token exchange
+ */
+export interface ExchangedToken extends TokenMetadata {
+  /** Type identifier of the issued token */
+  issuedTokenType: string;
+}
+
 /**
  * Biometric authentication types
  */
@@ -272,20 +788,50 @@ export interface NetworkStatus {
   isExpensive?: boolean;
 }
 
+/**
+ * How multiple required scopes or roles are matched
+ * - all: every value must be present (default)
+ * - any: at least one value must be present
+ */
+export type MatchMode = "all" | "any";
+
+/**
+ * Options for scope checks
+ */
+export interface ScopeCheckOptions {
+  /** Match mode (default: "all") */
+  mode?: MatchMode;
+}
+
+/**
+ * Options for role checks
+ */
+export interface RoleCheckOptions {
+  /** Match mode (default: "all") */
+  mode?: MatchMode;
+  /** Claim path holding the roles (defaults to the `rolesClaim` config option) */
+  claimPath?: string;
+}
+
 /**
  * Auth state
+ * @typeParam TUser - Shape of the user profile returned by the API
  */
-export interface AuthState {
+export interface AuthState<TUser = User> {
   /** Whether user is authenticated */
   isAuthenticated: boolean;
   /** Current user (if authenticated) */
-  user: User | null;
+  user: TUser | null;
   /** Whether auth state is loading */
   isLoading: boolean;
   /** Authentication error (if any) */
   error: Error | null;
   /** Token metadata */
   tokens: TokenMetadata | null;
+  /** Validated ID token claims (OIDC mode only) */
+  idTokenClaims: IdTokenClaims | null;
+  /** Unverified access token claims (null if the token is not a JWT) */
+  accessTokenClaims: AccessTokenClaims | null;
 }
 
 /**
@@ -302,6 +848,16 @@ export interface DeepLinkParams {
   error_description?: string;
 }
 
+/**
+ * Device verification link (RFC 8628 `verification_uri_complete`)
+ */
+export interface DeviceVerificationLink {
+  /** User code embedded in the link */
+  userCode: string;
+  /** Verification page without the user code */
+  verificationUri: string;
+}
+
 /**
  * Update profile data
  */
@@ -0,0 +1,58 @@
+/**
+ * Convert big-endian bytes to a BigInt
+ */
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  let result = BigInt(0);
+  for (const byte of bytes) {
+    result = (result << BigInt(8)) | BigInt(byte);
+  }
+  return result;
+}
+
+/**
+ * Convert a non-negative BigInt to fixed-length big-endian bytes
+ * @param value Value to convert
+ * @param length Output length in bytes (the value must fit)
+ */
+export function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(remaining & BigInt(0xff));
+    remaining >>= BigInt(8);
+  }
+  return bytes;
+}
+
+/**
+ * Non-negative remainder of a modulo m
+ */
+export function mod(a: bigint, m: bigint): bigint {
+  const result = a % m;
+  return result < BigInt(0) ? result + m : result;
+}
+
+/**
+ * Modular exponentiation (base^exponent mod modulus)
+ */
+export function modPow(
+  base: bigint,
+  exponent: bigint,
+  modulus: bigint,
+): bigint {
+  const zero = BigInt(0);
+  const one = BigInt(1);
+  let result = one;
+  let b = mod(base, modulus);
+  let e = exponent;
+
+  while (e > zero) {
+    if ((e & one) === one) {
+      result = (result * b) % modulus;
+    }
+    e >>= one;
+    b = (b * b) % modulus;
+  }
+
+  return result;
+}
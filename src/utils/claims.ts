@@ -0,0 +1,68 @@
+import { MatchMode } from "../types";
+
+/**
+ * Read a (possibly nested) claim by dot-separated path
+ * @param claims Decoded token claims
+ * @param path Claim path, e.g. "roles" or "realm_access.roles"
+ * @returns The claim value, or undefined if any segment is missing
+ */
+export function getClaim(
+  claims: Record<string, unknown> | null | undefined,
+  path: string,
+): unknown {
+  let value: unknown = claims;
+
+  for (const segment of path.split(".")) {
+    if (typeof value !== "object" || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+
+  return value;
+}
+
+/**
+ * Read a list of roles from a claim
+ * Accepts an array of strings or a space/comma separated string
+ * @param claims Decoded token claims
+ * @param path Claim path holding the roles
+ * @returns Roles, or an empty array if the claim is missing
+ */
+export function getRoles(
+  claims: Record<string, unknown> | null | undefined,
+  path: string,
+): string[] {
+  const value = getClaim(claims, path);
+
+  if (Array.isArray(value)) {
+    return value.filter((role): role is string => typeof role === "string");
+  }
+  if (typeof value === "string") {
+    return value.split(/[\s,]+/).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Check granted values (scopes, roles) against the required ones
+ * @param granted Values the user has
+ * @param required Value or values to check
+ * @param mode "all" requires every value, "any" at least one
+ * @returns true if the requirement is met (always true when nothing is required)
+ */
+export function hasRequiredValues(
+  granted: readonly string[],
+  required: string | readonly string[],
+  mode: MatchMode = "all",
+): boolean {
+  const values = typeof required === "string" ? [required] : required;
+
+  if (values.length === 0) {
+    return true;
+  }
+
+  return mode === "any"
+    ? values.some((value) => granted.includes(value))
+    : values.every((value) => granted.includes(value));
+}
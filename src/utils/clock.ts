@@ -0,0 +1,34 @@
+/**
+ * Sources of the server's time in a token response
+ */
+export interface ServerTimeSources {
+  /** `Date` response header (HTTP-date) */
+  date?: string | null;
+  /** `iat` claim of the issued token, in seconds */
+  issuedAt?: number | null;
+}
+
+/**
+ * Estimate how far the device clock is behind the server clock
+ * The `Date` header is preferred as it is sent with the response; the token's
+ * `iat` covers browsers that hide the header from cross-origin responses.
+ * @param sources - Server time sources of a response
+ * @param now - Device time when the response arrived (defaults to Date.now())
+ * @returns Server time minus device time in milliseconds, or null if the
+ * response carries no usable server time
+ */
+export function estimateClockOffset(
+  sources: ServerTimeSources,
+  now: number = Date.now(),
+): number | null {
+  const date = sources.date ? Date.parse(sources.date) : NaN;
+  if (Number.isFinite(date)) {
+    return date - now;
+  }
+
+  if (typeof sources.issuedAt === "number" && sources.issuedAt > 0) {
+    return sources.issuedAt * 1000 - now;
+  }
+
+  return null;
+}
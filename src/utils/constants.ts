@@ -6,12 +6,32 @@ export const STORAGE_KEYS = {
   REFRESH_TOKEN: "refresh_token",
   TOKEN_TYPE: "token_type",
   EXPIRES_AT: "expires_at",
+  SCOPE: "scope",
   USER: "user",
   USER_CACHED_AT: "user_cached_at",
   PKCE_VERIFIER: "pkce_verifier",
   OAUTH_STATE: "oauth_state",
+  OAUTH_NONCE: "oauth_nonce",
+  ID_TOKEN: "id_token",
+  DPOP_KEY: "dpop_key",
 } as const;
 
+/**
+ * Storage key of the account registry, shared by all account namespaces
+ */
+export const ACCOUNTS_STORAGE_KEY = "accounts";
+
+/**
+ * Storage key of the cached discovery document, shared by all accounts and
+ * kept on logout
+ */
+export const DISCOVERY_STORAGE_KEY = "oidc_discovery";
+
+/**
+ * Storage key of the measured server clock offset, shared by all accounts
+ */
+export const CLOCK_OFFSET_STORAGE_KEY = "clock_offset";
+
 /**
  * API endpoints
  */
@@ -23,9 +43,19 @@ export const ENDPOINTS = {
   PROFILE: "/api/auth/me/",
   INTROSPECT: "/oauth/introspect/",
   REVOKE: "/oauth/revoke_token/",
+  PAR: "/oauth/par/",
+  JWKS: "/oauth/.well-known/jwks.json",
+  END_SESSION: "/oauth/logout/",
+  DEVICE_AUTHORIZATION: "/oauth/device_authorization/",
+  DEVICE_VERIFICATION: "/api/auth/device/verify/",
   SOCIAL_LOGIN: (provider: string) => `/accounts/${provider}/login/`,
 } as const;
 
+/**
+ * OpenID Connect discovery document path, relative to the issuer
+ */
+export const DISCOVERY_PATH = "/.well-known/openid-configuration";
+
 /**
  * OAuth 2.0 grant types
  */
@@ -33,6 +63,18 @@ export const GRANT_TYPES = {
   AUTHORIZATION_CODE: "authorization_code",
   REFRESH_TOKEN: "refresh_token",
   CLIENT_CREDENTIALS: "client_credentials",
+  DEVICE_CODE: "urn:ietf:params:oauth:grant-type:device_code",
+  TOKEN_EXCHANGE: "urn:ietf:params:oauth:grant-type:token-exchange",
+} as const;
+
+/**
+ * Token type identifiers for token exchange (RFC 8693, section 3)
+ */
+export const TOKEN_TYPES = {
+  ACCESS_TOKEN: "urn:ietf:params:oauth:token-type:access_token",
+  REFRESH_TOKEN: "urn:ietf:params:oauth:token-type:refresh_token",
+  ID_TOKEN: "urn:ietf:params:oauth:token-type:id_token",
+  JWT: "urn:ietf:params:oauth:token-type:jwt",
 } as const;
 
 /**
@@ -46,6 +88,9 @@ export const EVENTS = {
   USER_LOGGED_OUT: "user_logged_out",
   USER_REGISTERED: "user_registered",
   USER_UPDATED: "user_updated",
+  SCOPES_GRANTED: "scopes_granted",
+  ACCOUNT_SWITCHED: "account_switched",
+  REQUEST_RETRY: "request_retry",
   NETWORK_ERROR: "network_error",
   BIOMETRIC_AUTH_SUCCESS: "biometric_auth_success",
   BIOMETRIC_AUTH_FAILED: "biometric_auth_failed",
@@ -59,7 +104,19 @@ export const DEFAULTS = {
   PKCE: true as boolean,
   AUTO_REFRESH: true as boolean,
   REFRESH_THRESHOLD: 300 as number, // 5 minutes
+  EXPIRY_LEEWAY: 30 as number, // seconds
   TIMEOUT: 30000 as number, // 30 seconds
   DEBUG: false as boolean,
   SECURE_STORAGE: true as boolean,
+  OIDC: false as boolean,
+  DISCOVERY: false as boolean,
+  DEVICE_POLL_INTERVAL: 5 as number, // seconds (RFC 8628, section 3.5)
+  ROLES_CLAIM: "roles" as string,
+  DPOP: false as boolean,
+  PAR: false as boolean,
+  RETRY_MAX_ATTEMPTS: 3 as number,
+  RETRY_INITIAL_DELAY: 500 as number, // milliseconds
+  RETRY_MAX_DELAY: 10000 as number, // milliseconds
+  RETRY_BACKOFF_FACTOR: 2 as number,
+  RETRY_STATUSES: [408, 429, 500, 502, 503, 504] as readonly number[],
 };
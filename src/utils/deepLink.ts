@@ -1,6 +1,7 @@
 import * as Linking from "expo-linking";
-import { DeepLinkParams } from "../types";
+import { DeepLinkParams, DeviceVerificationLink } from "../types";
 import { DeepLinkError } from "../errors";
+import { isAllowedOrigin } from "./validation";
 
 /**
  * Parse OAuth callback URL parameters
@@ -29,6 +30,42 @@ export function parseDeepLinkUrl(url: string): DeepLinkParams {
   }
 }
 
+/**
+ * Parse a device verification link (`verification_uri_complete`), e.g. from
+ * a QR code shown on a TV
+ * @param url Scanned or deep-linked URL
+ * @param allowedOrigins Origins the link must belong to. Pass your auth
+ * server so users can't be tricked into approving a code for another service.
+ * @returns The user code and the verification page it belongs to
+ * @throws DeepLinkError if the URL is invalid, has no user code or is not
+ * from an allowed origin
+ */
+export function parseDeviceVerificationUrl(
+  url: string,
+  allowedOrigins?: string[],
+): DeviceVerificationLink {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new DeepLinkError("Invalid device verification URL", error);
+  }
+
+  if (allowedOrigins && !isAllowedOrigin(url, allowedOrigins)) {
+    throw new DeepLinkError(
+      `Device verification URL is not from a trusted origin: ${parsed.origin}`,
+    );
+  }
+
+  const userCode = parsed.searchParams.get("user_code")?.trim();
+  if (!userCode) {
+    throw new DeepLinkError("No user_code found in device verification URL");
+  }
+
+  parsed.searchParams.delete("user_code");
+  return { userCode, verificationUri: parsed.toString() };
+}
+
 /**
  * Get the initial deep link URL (if app was opened with one)
  * @returns Promise resolving to the initial URL or null
@@ -61,16 +98,18 @@ export function addEventListener(handler: (url: string) => void): {
 /**
  * Build OAuth authorization URL with parameters
  * @param baseUrl Base URL of the OAuth provider
- * @param params Query parameters
+ * @param params Query parameters (arrays are sent as repeated parameters)
  * @returns Complete authorization URL
  */
 export function buildAuthorizationUrl(
   baseUrl: string,
-  params: Record<string, string>,
+  params: Record<string, string | string[]>,
 ): string {
   const url = new URL(baseUrl);
   Object.entries(params).forEach(([key, value]) => {
-    url.searchParams.append(key, value);
+    (Array.isArray(value) ? value : [value]).forEach((item) => {
+      url.searchParams.append(key, item);
+    });
   });
   return url.toString();
 }
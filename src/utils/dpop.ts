@@ -0,0 +1,48 @@
+import { DPoPKey } from "../types";
+import { base64UrlEncode } from "./jwt";
+import { generateCodeChallenge, generateNonce } from "./pkce";
+
+/**
+ * Options for a DPoP proof
+ */
+export interface DPoPProofOptions {
+  /** HTTP method of the request */
+  method: string;
+  /** Full request URL (query and fragment are stripped) */
+  url: string;
+  /** Server-provided nonce from the `DPoP-Nonce` header */
+  nonce?: string;
+  /** Access token the request carries (adds the `ath` claim) */
+  accessToken?: string;
+  /** Current time in milliseconds (defaults to Date.now()) */
+  now?: number;
+}
+
+/**
+ * Create a DPoP proof JWT for a single request (RFC 9449, section 4.2)
+ * @param key Key pair to sign with
+ * @param options Request the proof is bound to
+ * @returns Compact-serialized proof for the `DPoP` header
+ */
+export async function createDPoPProof(
+  key: DPoPKey,
+  options: DPoPProofOptions,
+): Promise<string> {
+  const header = { typ: "dpop+jwt", alg: key.alg, jwk: key.publicJwk };
+  const payload: Record<string, unknown> = {
+    jti: generateNonce(),
+    htm: options.method.toUpperCase(),
+    htu: options.url.split(/[?#]/)[0],
+    iat: Math.floor((options.now ?? Date.now()) / 1000),
+  };
+  if (options.nonce) {
+    payload.nonce = options.nonce;
+  }
+  if (options.accessToken) {
+    // base64url(SHA-256(token)) - the same encoding as an S256 PKCE challenge
+    payload.ath = await generateCodeChallenge(options.accessToken, "S256");
+  }
+
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  return `${signingInput}.${await key.sign(signingInput)}`;
+}
@@ -0,0 +1,33 @@
+import type { AxiosInstance } from "axios";
+import type { AuthKitClient } from "../client";
+import { AuthHttpOptions } from "../types";
+
+/**
+ * Attach AuthKit token handling to an existing axios instance
+ * Injects the bearer token for allowed hosts, retries once with a refreshed
+ * token on 401 and maps failures to AuthKitError subclasses.
+ * @param instance Your application's axios instance
+ * @param client AuthKit client that owns the session
+ * @param options Hosts allowed to receive the token (defaults to `resourceServers`)
+ * @returns Function that detaches AuthKit from the instance
+ */
+export function attachAuthKit<TScope extends string, TUser>(
+  instance: AxiosInstance,
+  client: AuthKitClient<TScope, TUser>,
+  options?: AuthHttpOptions,
+): () => void {
+  return client.attachInterceptors(instance, options);
+}
+
+/**
+ * Create a fetch() function with AuthKit token handling
+ * @param client AuthKit client that owns the session
+ * @param options Hosts allowed to receive the token (defaults to `resourceServers`)
+ * @returns fetch-compatible function
+ */
+export function createAuthFetch<TScope extends string, TUser>(
+  client: AuthKitClient<TScope, TUser>,
+  options?: AuthHttpOptions,
+): (url: string, init?: RequestInit) => Promise<Response> {
+  return (url, init) => client.fetch(url, init, options);
+}
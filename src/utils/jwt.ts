@@ -0,0 +1,215 @@
+import { TokenError } from "../errors";
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Parsed JSON Web Token
+ */
+export interface ParsedJwt<T = Record<string, unknown>> {
+  /** Decoded JOSE header */
+  header: { alg?: string; kid?: string; typ?: string; [key: string]: unknown };
+  /** Decoded payload (claims) */
+  payload: T;
+  /** The `header.payload` part the signature was computed over */
+  signingInput: string;
+  /** Raw signature bytes */
+  signature: Uint8Array;
+}
+
+/**
+ * Decode a base64url string to bytes
+ * @param input Base64url-encoded string (padding optional)
+ * @returns Decoded bytes
+ */
+export function base64UrlToBytes(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/").replace(/=+$/, "");
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of base64) {
+    const value = BASE64_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new TokenError("Invalid base64url character in token");
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode bytes as base64url without padding
+ * @param bytes Bytes to encode
+ * @returns Base64url-encoded string
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let result = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 6) {
+      bits -= 6;
+      result += BASE64_ALPHABET[(buffer >> bits) & 0x3f];
+    }
+  }
+  if (bits > 0) {
+    result += BASE64_ALPHABET[(buffer << (6 - bits)) & 0x3f];
+  }
+
+  return result.replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+function utf8Encode(input: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const char of input) {
+    const codePoint = char.codePointAt(0) as number;
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode a string as base64url UTF-8 without padding
+ * @param input String to encode
+ * @returns Base64url-encoded string
+ */
+export function base64UrlEncode(input: string): string {
+  return bytesToBase64Url(utf8Encode(input));
+}
+
+/**
+ * Decode UTF-8 bytes to a string
+ */
+function utf8Decode(bytes: Uint8Array): string {
+  let result = "";
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let codePoint: number;
+
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte >= 0xc0 && byte < 0xe0) {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      codePoint =
+        ((byte & 0x0f) << 12) |
+        ((bytes[i++] & 0x3f) << 6) |
+        (bytes[i++] & 0x3f);
+    } else {
+      codePoint =
+        ((byte & 0x07) << 18) |
+        ((bytes[i++] & 0x3f) << 12) |
+        ((bytes[i++] & 0x3f) << 6) |
+        (bytes[i++] & 0x3f);
+    }
+
+    result += String.fromCodePoint(codePoint);
+  }
+
+  return result;
+}
+
+/**
+ * Decode a base64url-encoded UTF-8 string
+ * @param input Base64url-encoded string
+ * @returns Decoded string
+ */
+export function base64UrlDecode(input: string): string {
+  return utf8Decode(base64UrlToBytes(input));
+}
+
+/**
+ * Split a compact JWT into its decoded parts
+ * Does NOT verify the signature
+ * @param token Compact-serialized JWT
+ * @returns Parsed header, payload and signature
+ * @throws TokenError if the token is malformed
+ */
+export function parseJwt<T = Record<string, unknown>>(
+  token: string,
+): ParsedJwt<T> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new TokenError("Malformed JWT: expected 3 segments");
+  }
+
+  try {
+    const header = JSON.parse(base64UrlDecode(parts[0]));
+    const payload = JSON.parse(base64UrlDecode(parts[1]));
+
+    if (
+      typeof header !== "object" ||
+      header === null ||
+      typeof payload !== "object" ||
+      payload === null
+    ) {
+      throw new TokenError("Malformed JWT: header and payload must be objects");
+    }
+
+    return {
+      header,
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: base64UrlToBytes(parts[2]),
+    };
+  } catch (error) {
+    if (error instanceof TokenError) {
+      throw error;
+    }
+    throw new TokenError("Malformed JWT: invalid JSON", undefined, error);
+  }
+}
+
+/**
+ * Decode the payload of a JWT without verifying it
+ *
+ * UNTRUSTED: the signature is not checked, so anyone can forge these claims.
+ * Use them for display and UI decisions only - never for security decisions,
+ * which must be enforced by the server that validates the token.
+ * @param token Compact-serialized JWT
+ * @returns Decoded claims, or null if the token is not a well-formed JWT
+ */
+export function decodeJwtClaimsUnsafe<T = Record<string, unknown>>(
+  token: string,
+): T | null {
+  try {
+    return parseJwt<T>(token).payload;
+  } catch (error) {
+    return null;
+  }
+}
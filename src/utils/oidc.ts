@@ -0,0 +1,148 @@
+import * as Crypto from "expo-crypto";
+import { IdTokenClaims, JsonWebKey } from "../types";
+import { TokenError } from "../errors";
+import { ParsedJwt, base64UrlToBytes } from "./jwt";
+import { bytesToBigInt, modPow } from "./bigint";
+
+/**
+ * Supported RSASSA-PKCS1-v1_5 algorithms with their digest and
+ * DER-encoded DigestInfo prefix (RFC 8017, section 9.2)
+ */
+const RSA_ALGORITHMS: Record<
+  string,
+  { digest: Crypto.CryptoDigestAlgorithm; prefix: string }
+> = {
+  RS256: {
+    digest: Crypto.CryptoDigestAlgorithm.SHA256,
+    prefix: "3031300d060960864801650304020105000420",
+  },
+  RS384: {
+    digest: Crypto.CryptoDigestAlgorithm.SHA384,
+    prefix: "3041300d060960864801650304020205000430",
+  },
+  RS512: {
+    digest: Crypto.CryptoDigestAlgorithm.SHA512,
+    prefix: "3051300d060960864801650304020305000440",
+  },
+};
+
+/**
+ * Options for ID token claim validation
+ */
+export interface IdTokenValidationOptions {
+  /** Expected issuer (`iss`) */
+  issuer: string;
+  /** OAuth client ID, must be in the audience (`aud`) */
+  clientId: string;
+  /** Expected nonce. Pass `undefined` to skip the check (e.g. on refresh) */
+  nonce?: string | null;
+  /** Allowed clock skew in seconds */
+  leeway: number;
+  /** Current time in milliseconds (defaults to Date.now()) */
+  now?: number;
+}
+
+/**
+ * Normalize an issuer URL for comparison (ignores a trailing slash)
+ */
+function normalizeIssuer(issuer: string): string {
+  return issuer.replace(/\/+$/, "");
+}
+
+/**
+ * Verify the signature of a parsed JWT against an RSA JSON Web Key
+ * Supports RS256, RS384 and RS512
+ * @param jwt Parsed JWT
+ * @param key RSA public key (JWK with `n` and `e`)
+ * @returns true if the signature is valid
+ * @throws TokenError if the algorithm or key type is unsupported
+ */
+export async function verifyJwtSignature(
+  jwt: ParsedJwt,
+  key: JsonWebKey,
+): Promise<boolean> {
+  const algorithm = jwt.header.alg ? RSA_ALGORITHMS[jwt.header.alg] : undefined;
+  if (!algorithm) {
+    throw new TokenError(`Unsupported JWT algorithm: ${jwt.header.alg}`);
+  }
+  if (key.kty !== "RSA" || !key.n || !key.e) {
+    throw new TokenError("Signing key is not an RSA public key");
+  }
+
+  const modulusBytes = base64UrlToBytes(key.n);
+  const modulus = bytesToBigInt(modulusBytes);
+  const exponent = bytesToBigInt(base64UrlToBytes(key.e));
+  const signature = bytesToBigInt(jwt.signature);
+
+  if (signature >= modulus) {
+    return false;
+  }
+
+  // Recover the encoded message and render it as fixed-length hex
+  const keyLength =
+    modulusBytes[0] === 0 ? modulusBytes.length - 1 : modulusBytes.length;
+  const encoded = modPow(signature, exponent, modulus)
+    .toString(16)
+    .padStart(keyLength * 2, "0");
+
+  const digest = await Crypto.digestStringAsync(
+    algorithm.digest,
+    jwt.signingInput,
+    { encoding: Crypto.CryptoEncoding.HEX },
+  );
+
+  // EMSA-PKCS1-v1_5: 0x00 0x01 FF..FF 0x00 || DigestInfo || H
+  const tail = `00${algorithm.prefix}${digest.toLowerCase()}`;
+  const paddingLength = keyLength * 2 - 4 - tail.length;
+  if (paddingLength < 16) {
+    return false;
+  }
+  const expected = `0001${"f".repeat(paddingLength)}${tail}`;
+
+  return encoded === expected;
+}
+
+/**
+ * Validate the standard claims of an OpenID Connect ID token
+ * Checks iss, aud, azp, exp, iat and nonce
+ * @param claims Decoded ID token claims
+ * @param options Expected values
+ * @throws TokenError if any check fails
+ */
+export function validateIdTokenClaims(
+  claims: IdTokenClaims,
+  options: IdTokenValidationOptions,
+): void {
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+
+  if (
+    typeof claims.iss !== "string" ||
+    normalizeIssuer(claims.iss) !== normalizeIssuer(options.issuer)
+  ) {
+    throw new TokenError("Invalid ID token issuer", "invalid_iss");
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(options.clientId)) {
+    throw new TokenError("Invalid ID token audience", "invalid_aud");
+  }
+  if (
+    audiences.length > 1 &&
+    claims.azp !== undefined &&
+    claims.azp !== options.clientId
+  ) {
+    throw new TokenError("Invalid ID token authorized party", "invalid_azp");
+  }
+
+  if (typeof claims.exp !== "number" || now > claims.exp + options.leeway) {
+    throw new TokenError("ID token has expired", "expired");
+  }
+
+  if (typeof claims.iat !== "number" || claims.iat > now + options.leeway) {
+    throw new TokenError("ID token was issued in the future", "invalid_iat");
+  }
+
+  if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+    throw new TokenError("Invalid ID token nonce", "invalid_nonce");
+  }
+}
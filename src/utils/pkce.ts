@@ -79,3 +79,11 @@ export async function generatePKCEParams(
 export function generateState(): string {
   return generateCodeVerifier(32);
 }
+
+/**
+ * Generate a random nonce for OpenID Connect
+ * @returns Random nonce string
+ */
+export function generateNonce(): string {
+  return generateCodeVerifier(32);
+}
@@ -0,0 +1,82 @@
+import { RetryConfig } from "../types";
+import { NetworkError } from "../errors";
+import { DEFAULTS } from "./constants";
+
+/**
+ * Retry policy with every option set
+ */
+export type RetryPolicy = Required<RetryConfig>;
+
+/**
+ * Merge a retry config with the defaults
+ * @param config - Retry config, or false to disable retries
+ * @returns The policy, or null if retries are disabled
+ */
+export function resolveRetryPolicy(
+  config: RetryConfig | false | undefined,
+): RetryPolicy | null {
+  if (config === false) {
+    return null;
+  }
+
+  return {
+    maxAttempts: config?.maxAttempts ?? DEFAULTS.RETRY_MAX_ATTEMPTS,
+    initialDelay: config?.initialDelay ?? DEFAULTS.RETRY_INITIAL_DELAY,
+    maxDelay: config?.maxDelay ?? DEFAULTS.RETRY_MAX_DELAY,
+    backoffFactor: config?.backoffFactor ?? DEFAULTS.RETRY_BACKOFF_FACTOR,
+    jitter: config?.jitter ?? true,
+    retryStatuses: config?.retryStatuses ?? [...DEFAULTS.RETRY_STATUSES],
+    retryNetworkErrors: config?.retryNetworkErrors ?? true,
+  };
+}
+
+/**
+ * Whether a failed request may succeed when sent again
+ * Only network errors qualify: a listed HTTP status, or (if enabled) a
+ * timeout or a request that got no response.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (!(error instanceof NetworkError)) {
+    return false;
+  }
+  if (error.statusCode === undefined) {
+    return policy.retryNetworkErrors;
+  }
+  return policy.retryStatuses.includes(error.statusCode);
+}
+
+/**
+ * Whether a failure says nothing about the request itself: a timeout, a
+ * request that got no response, or a 408/429/5xx answer. Refresh failures
+ * like these leave the session in place.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof NetworkError)) {
+    return false;
+  }
+  return (
+    error.statusCode === undefined ||
+    error.statusCode >= 500 ||
+    DEFAULTS.RETRY_STATUSES.includes(error.statusCode)
+  );
+}
+
+/**
+ * Delay before the next attempt: exponential backoff capped at `maxDelay`,
+ * with full jitter when enabled
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that failed (starting at 1)
+ * @param random - Random number source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const backoff = Math.min(
+    policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1),
+    policy.maxDelay,
+  );
+  return Math.round(policy.jitter ? random() * backoff : backoff);
+}
@@ -0,0 +1,17 @@
+/**
+ * Split a space-delimited OAuth scope string (RFC 6749, section 3.3)
+ * @param scope Scope string, e.g. "openid profile email"
+ * @returns Individual scopes, without empty entries
+ */
+export function parseScopes(scope: string): string[] {
+  return scope.split(" ").filter(Boolean);
+}
+
+/**
+ * Combine scope lists, keeping the first occurrence of each scope
+ * @param lists Scope lists to merge
+ * @returns Merged scopes
+ */
+export function mergeScopes(...lists: string[][]): string[] {
+  return Array.from(new Set(lists.flat()));
+}
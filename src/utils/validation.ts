@@ -43,6 +43,35 @@ export function validateUrl(url: string, allowedHosts?: string[]): boolean {
   }
 }
 
+/**
+ * Check whether a URL belongs to one of the allowed origins
+ * Unlike validateUrl, subdomains are not matched - the scheme, host and
+ * port must be identical. Bare hostnames are treated as HTTPS origins.
+ * @param url URL to check
+ * @param allowedOrigins List of allowed origins (e.g., 'https://api.example.com')
+ * @returns true if the URL's origin is in the list
+ */
+export function isAllowedOrigin(
+  url: string,
+  allowedOrigins: string[],
+): boolean {
+  try {
+    const { origin } = new URL(url);
+    return allowedOrigins.some((allowed) => {
+      try {
+        const normalized = allowed.includes("://")
+          ? allowed
+          : `https://${allowed}`;
+        return new URL(normalized).origin === origin;
+      } catch {
+        return false;
+      }
+    });
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Sanitize redirect URI to prevent open redirect attacks
  * @param redirectUri Redirect URI to validate